@@ -2,13 +2,26 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Menu from "./pages/Menu";
 import Checkout from "./pages/Checkout";
 import Orders from "./pages/Orders";
+import OrderDetail from "./pages/OrderDetail";
+import Account from "./pages/Account";
 import Staff from "./pages/Staff";
+import Admin from "./pages/Admin";
+import AdminMenu from "./pages/admin/AdminMenu";
+import AdminCombos from "./pages/admin/AdminCombos";
+import AdminCategories from "./pages/admin/AdminCategories";
+import AdminBranches from "./pages/admin/AdminBranches";
+import AdminBranchMenu from "./pages/admin/AdminBranchMenu";
+import AdminStaff from "./pages/admin/AdminStaff";
+import AdminRoles from "./pages/admin/AdminRoles";
+import AdminTips from "./pages/admin/AdminTips";
+import AdminPromos from "./pages/admin/AdminPromos";
+import AdminGiftCards from "./pages/admin/AdminGiftCards";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -25,7 +38,22 @@ const App = () => (
           <Route path="/menu" element={<Menu />} />
           <Route path="/checkout" element={<Checkout />} />
           <Route path="/orders" element={<Orders />} />
+          <Route path="/orders/:id" element={<OrderDetail />} />
+          <Route path="/account" element={<Account />} />
           <Route path="/staff" element={<Staff />} />
+          <Route path="/admin" element={<Admin />}>
+            <Route index element={<Navigate to="menu" replace />} />
+            <Route path="menu" element={<AdminMenu />} />
+            <Route path="combos" element={<AdminCombos />} />
+            <Route path="categories" element={<AdminCategories />} />
+            <Route path="branches" element={<AdminBranches />} />
+            <Route path="branch-menu" element={<AdminBranchMenu />} />
+            <Route path="staff" element={<AdminStaff />} />
+            <Route path="roles" element={<AdminRoles />} />
+            <Route path="tips" element={<AdminTips />} />
+            <Route path="promos" element={<AdminPromos />} />
+            <Route path="gift-cards" element={<AdminGiftCards />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,89 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+interface CancelOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string | null;
+  onCancelled: () => void;
+}
+
+export function CancelOrderDialog({ open, onOpenChange, orderId, onCancelled }: CancelOrderDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+    }
+  }, [open]);
+
+  const handleCancel = async () => {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("cancel_order", {
+        _order_id: orderId,
+        _reason: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Order cancelled",
+        description: "The restaurant has been notified.",
+      });
+
+      onOpenChange(false);
+      onCancelled();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't cancel order",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel this order?</DialogTitle>
+          <DialogDescription>
+            Orders can only be cancelled before the kitchen starts preparing them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">Reason</Label>
+          <Textarea
+            id="cancel-reason"
+            placeholder="e.g. Ordered from the wrong branch"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Order
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={saving || !reason.trim()}>
+            {saving ? "Cancelling..." : "Cancel Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SelectedComboChoice, comboChoiceFor } from "@/lib/cart";
+import { BranchCombo } from "@/lib/combos";
+
+interface ComboChoicesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  combo: BranchCombo | null;
+  onConfirm: (choices: SelectedComboChoice[]) => void;
+}
+
+export function ComboChoicesDialog({ open, onOpenChange, combo, onConfirm }: ComboChoicesDialogProps) {
+  // Chosen menu item id keyed by slot id
+  const [selected, setSelected] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open && combo) {
+      // Slots with only one item have nothing to choose
+      setSelected(
+        Object.fromEntries(
+          combo.slots.filter((slot) => slot.options.length === 1).map((slot) => [slot.id, slot.options[0].menu_id])
+        )
+      );
+    }
+  }, [open, combo]);
+
+  const choices: SelectedComboChoice[] = (combo?.slots ?? []).flatMap((slot) => {
+    const option = slot.options.find((o) => o.menu_id === selected[slot.id]);
+    return option ? [comboChoiceFor(slot, option)] : [];
+  });
+
+  const isValid = choices.length === (combo?.slots.length ?? 0);
+  const total = (combo?.price ?? 0) + choices.reduce((sum, c) => sum + c.price_delta, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{combo?.name}</DialogTitle>
+          <DialogDescription>Choose one item for each part of the combo</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {combo?.slots.map((slot) => (
+            <div key={slot.id} className="space-y-2">
+              <p className="font-semibold">{slot.name}</p>
+              <RadioGroup
+                value={selected[slot.id] || ""}
+                onValueChange={(v) => setSelected((prev) => ({ ...prev, [slot.id]: v }))}
+              >
+                {slot.options.map((option) => (
+                  <div key={option.menu_id} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option.menu_id} id={`${slot.id}-${option.menu_id}`} />
+                    <Label htmlFor={`${slot.id}-${option.menu_id}`} className="flex-1">{option.name}</Label>
+                    {option.price_delta > 0 && (
+                      <span className="text-sm text-muted-foreground">+${option.price_delta.toFixed(2)}</span>
+                    )}
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button className="w-full" disabled={!isValid} onClick={() => onConfirm(choices)}>
+            Add to Cart – ${total.toFixed(2)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ModifierDialog, ModifierGroup } from "@/components/ModifierDialog";
+import { ComboChoicesDialog } from "@/components/ComboChoicesDialog";
+import { useToast } from "@/hooks/use-toast";
+import { BranchMenuItem, fetchBranchMenu } from "@/lib/branch-menu";
+import { SelectedComboChoice, SelectedModifier, comboLineIdFor, lineIdFor } from "@/lib/cart";
+import { BranchCombo, fetchBranchCombos } from "@/lib/combos";
+import { Minus, Plus, Trash2 } from "lucide-react";
+
+export interface EditableOrder {
+  id: string;
+  branch_id: string;
+  ordered_items: Array<{
+    id: string;
+    menu_id: string | null;
+    quantity: number;
+    price_each: number;
+    notes: string | null;
+    parent_item_id: string | null;
+    menu: {
+      name: string;
+    } | null;
+    combos: {
+      name: string;
+    } | null;
+    ordered_item_modifiers: Array<{
+      name: string;
+    }>;
+  }>;
+}
+
+// Existing lines keep their id (and price); new ones are sent with their menu item and
+// options, or their combo and choices
+interface EditLine {
+  key: string;
+  id?: string;
+  menu_id: string | null;
+  combo_id?: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  notes: string | null;
+  modifiers: SelectedModifier[];
+  choices?: SelectedComboChoice[];
+  modifierNames: string[];
+}
+
+interface EditOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: EditableOrder | null;
+  onSaved: () => void;
+}
+
+export function EditOrderDialog({ open, onOpenChange, order, onSaved }: EditOrderDialogProps) {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<EditLine[]>([]);
+  const [menuItems, setMenuItems] = useState<BranchMenuItem[]>([]);
+  const [combos, setCombos] = useState<BranchCombo[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [customizingItem, setCustomizingItem] = useState<BranchMenuItem | null>(null);
+  const [customizingCombo, setCustomizingCombo] = useState<BranchCombo | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && order) {
+      setLines(
+        // Combo components follow their combo line, so only the combo is listed
+        order.ordered_items
+          .filter((item) => !item.parent_item_id)
+          .map((item) => ({
+            key: item.id,
+            id: item.id,
+            menu_id: item.menu_id,
+            name: item.combos?.name || item.menu?.name || "Removed item",
+            unitPrice: item.price_each,
+            quantity: item.quantity,
+            notes: item.notes,
+            modifiers: [],
+            modifierNames: [
+              ...item.ordered_item_modifiers.map((m) => m.name),
+              ...order.ordered_items
+                .filter((component) => component.parent_item_id === item.id)
+                .map((component) => component.menu?.name || "Removed item"),
+            ],
+          }))
+      );
+      fetchMenu();
+    }
+  }, [open, order]);
+
+  const fetchMenu = async () => {
+    try {
+      const [items, branchCombos, groupsRes] = await Promise.all([
+        fetchBranchMenu(order.branch_id),
+        fetchBranchCombos(order.branch_id),
+        supabase
+          .from("modifier_groups")
+          .select("*, modifier_options(*)")
+          .order("sort_order")
+          .order("sort_order", { referencedTable: "modifier_options" }),
+      ]);
+
+      if (groupsRes.error) throw groupsRes.error;
+      setMenuItems(items.filter((item) => item.available));
+      setCombos(branchCombos);
+      setModifierGroups(groupsRes.data || []);
+    } catch (error) {
+      console.error("Error fetching menu:", error);
+    }
+  };
+
+  const groupsFor = (itemId: string) => modifierGroups.filter((g) => g.menu_id === itemId);
+
+  const addLine = (item: BranchMenuItem, modifiers: SelectedModifier[]) => {
+    const key = lineIdFor(item.id, modifiers);
+    setLines((prev) => {
+      if (prev.some((line) => line.key === key)) {
+        return prev.map((line) => (line.key === key ? { ...line, quantity: line.quantity + 1 } : line));
+      }
+      return [
+        ...prev,
+        {
+          key,
+          menu_id: item.id,
+          name: item.name,
+          unitPrice: item.price + modifiers.reduce((sum, m) => sum + m.price_delta, 0),
+          quantity: 1,
+          notes: null,
+          modifiers,
+          modifierNames: modifiers.map((m) => m.name),
+        },
+      ];
+    });
+  };
+
+  const addComboLine = (combo: BranchCombo, choices: SelectedComboChoice[]) => {
+    const key = comboLineIdFor(combo.id, choices);
+    setLines((prev) => {
+      if (prev.some((line) => line.key === key)) {
+        return prev.map((line) => (line.key === key ? { ...line, quantity: line.quantity + 1 } : line));
+      }
+      return [
+        ...prev,
+        {
+          key,
+          menu_id: null,
+          combo_id: combo.id,
+          name: combo.name,
+          unitPrice: combo.price + choices.reduce((sum, c) => sum + c.price_delta, 0),
+          quantity: 1,
+          notes: null,
+          modifiers: [],
+          choices,
+          modifierNames: choices.map((c) => c.name),
+        },
+      ];
+    });
+  };
+
+  const handleAdd = (value: string) => {
+    const combo = combos.find((c) => `combo:${c.id}` === value);
+    if (combo) {
+      setCustomizingCombo(combo);
+      return;
+    }
+
+    const item = menuItems.find((m) => m.id === value);
+    if (!item) return;
+
+    if (groupsFor(item.id).length > 0) {
+      setCustomizingItem(item);
+    } else {
+      addLine(item, []);
+    }
+  };
+
+  const updateQuantity = (key: string, delta: number) => {
+    setLines((prev) =>
+      prev
+        .map((line) => (line.key === key ? { ...line, quantity: line.quantity + delta } : line))
+        .filter((line) => line.quantity > 0)
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("update_order_items", {
+        _order_id: order.id,
+        _items: lines.map((line) =>
+          line.id
+            ? { id: line.id, quantity: line.quantity, notes: line.notes }
+            : line.combo_id
+            ? {
+                combo_id: line.combo_id,
+                quantity: line.quantity,
+                choices: line.choices.map((c) => ({ slot_id: c.slot_id, menu_id: c.menu_id })),
+              }
+            : {
+                menu_id: line.menu_id,
+                quantity: line.quantity,
+                modifier_option_ids: line.modifiers.map((m) => m.id),
+              }
+        ),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Order updated",
+        description: "The restaurant can see your changes.",
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't update order",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Order</DialogTitle>
+            <DialogDescription>
+              You can change your order until the kitchen starts preparing it. New items are charged at today's prices.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {lines.map((line) => (
+              <div key={line.key} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate">{line.name}</p>
+                  {line.modifierNames.length > 0 && (
+                    <p className="text-sm text-muted-foreground truncate">{line.modifierNames.join(", ")}</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">${line.unitPrice.toFixed(2)} each</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => updateQuantity(line.key, -1)}>
+                    {line.quantity === 1 ? <Trash2 className="h-3 w-3" /> : <Minus className="h-3 w-3" />}
+                  </Button>
+                  <span className="font-semibold w-6 text-center">{line.quantity}</span>
+                  <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => updateQuantity(line.key, 1)}>
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Select value="" onValueChange={handleAdd}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add an item..." />
+              </SelectTrigger>
+              <SelectContent>
+                {menuItems.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name} – ${item.price.toFixed(2)}
+                  </SelectItem>
+                ))}
+                {combos.map((combo) => (
+                  <SelectItem key={combo.id} value={`combo:${combo.id}`}>
+                    {combo.name} (combo) – ${combo.price.toFixed(2)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex justify-between border-t pt-3 font-semibold">
+              <span>Subtotal</span>
+              <span>${subtotal.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Discard
+            </Button>
+            <Button onClick={handleSave} disabled={saving || lines.length === 0}>
+              {saving ? "Saving..." : "Save Changes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ModifierDialog
+        open={!!customizingItem}
+        onOpenChange={(isOpen) => !isOpen && setCustomizingItem(null)}
+        item={customizingItem}
+        groups={customizingItem ? groupsFor(customizingItem.id) : []}
+        onConfirm={(modifiers) => {
+          addLine(customizingItem, modifiers);
+          setCustomizingItem(null);
+        }}
+      />
+
+      <ComboChoicesDialog
+        open={!!customizingCombo}
+        onOpenChange={(isOpen) => !isOpen && setCustomizingCombo(null)}
+        combo={customizingCombo}
+        onConfirm={(choices) => {
+          addComboLine(customizingCombo, choices);
+          setCustomizingCombo(null);
+        }}
+      />
+    </>
+  );
+}
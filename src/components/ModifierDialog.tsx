@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SelectedModifier } from "@/lib/cart";
+
+export interface ModifierGroup {
+  id: string;
+  menu_id: string;
+  name: string;
+  min_selections: number;
+  max_selections: number;
+  sort_order: number;
+  modifier_options: Array<{
+    id: string;
+    name: string;
+    price_delta: number;
+    sort_order: number;
+  }>;
+}
+
+interface ModifierDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: { name: string; price: number } | null;
+  groups: ModifierGroup[];
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+}
+
+const formatDelta = (delta: number) =>
+  delta === 0 ? "" : `${delta > 0 ? "+" : "-"}$${Math.abs(delta).toFixed(2)}`;
+
+const describeLimits = (group: ModifierGroup) => {
+  if (group.min_selections === 0) {
+    return group.max_selections === 1 ? "Optional" : `Optional, up to ${group.max_selections}`;
+  }
+  if (group.min_selections === group.max_selections) {
+    return `Required, choose ${group.min_selections}`;
+  }
+  return `Required, choose ${group.min_selections}–${group.max_selections}`;
+};
+
+export function ModifierDialog({ open, onOpenChange, item, groups, onConfirm }: ModifierDialogProps) {
+  // Selected option ids keyed by group id
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (open) {
+      setSelected({});
+    }
+  }, [open]);
+
+  const toggleOption = (group: ModifierGroup, optionId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const current = prev[group.id] || [];
+      const next = checked ? [...current, optionId] : current.filter((id) => id !== optionId);
+      return { ...prev, [group.id]: next };
+    });
+  };
+
+  const modifiers: SelectedModifier[] = groups.flatMap((group) =>
+    group.modifier_options
+      .filter((option) => (selected[group.id] || []).includes(option.id))
+      .map((option) => ({ id: option.id, name: option.name, price_delta: option.price_delta }))
+  );
+
+  const isValid = groups.every((group) => {
+    const count = (selected[group.id] || []).length;
+    return count >= group.min_selections && count <= group.max_selections;
+  });
+
+  const total = (item?.price ?? 0) + modifiers.reduce((sum, m) => sum + m.price_delta, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Customize your order</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <p className="font-semibold">{group.name}</p>
+                <span className="text-xs text-muted-foreground">{describeLimits(group)}</span>
+              </div>
+
+              {group.max_selections === 1 ? (
+                <RadioGroup
+                  value={(selected[group.id] || [])[0] || ""}
+                  onValueChange={(v) => setSelected((prev) => ({ ...prev, [group.id]: [v] }))}
+                >
+                  {group.modifier_options.map((option) => (
+                    <div key={option.id} className="flex items-center space-x-2">
+                      <RadioGroupItem value={option.id} id={option.id} />
+                      <Label htmlFor={option.id} className="flex-1">{option.name}</Label>
+                      <span className="text-sm text-muted-foreground">{formatDelta(option.price_delta)}</span>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                group.modifier_options.map((option) => {
+                  const checked = (selected[group.id] || []).includes(option.id);
+                  const atLimit = (selected[group.id] || []).length >= group.max_selections;
+                  return (
+                    <div key={option.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={option.id}
+                        checked={checked}
+                        disabled={!checked && atLimit}
+                        onCheckedChange={(c) => toggleOption(group, option.id, c === true)}
+                      />
+                      <Label htmlFor={option.id} className="flex-1">{option.name}</Label>
+                      <span className="text-sm text-muted-foreground">{formatDelta(option.price_delta)}</span>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="w-full"
+            disabled={!isValid}
+            onClick={() => onConfirm(modifiers)}
+          >
+            Add to Cart – ${total.toFixed(2)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { NavLink } from "@/components/NavLink";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { Building2, Gift, HandCoins, LayoutList, Sandwich, ShieldCheck, Store, Tag, UtensilsCrossed, Users } from "lucide-react";
+
+const sections = [
+  { title: "Menu", url: "/admin/menu", icon: UtensilsCrossed },
+  { title: "Combos", url: "/admin/combos", icon: Sandwich },
+  { title: "Categories", url: "/admin/categories", icon: LayoutList },
+  { title: "Branches", url: "/admin/branches", icon: Building2 },
+  { title: "Branch Menu", url: "/admin/branch-menu", icon: Store },
+  { title: "Staff", url: "/admin/staff", icon: Users },
+  { title: "Roles", url: "/admin/roles", icon: ShieldCheck },
+  { title: "Tips", url: "/admin/tips", icon: HandCoins },
+  { title: "Promo Codes", url: "/admin/promos", icon: Tag },
+  { title: "Gift Cards", url: "/admin/gift-cards", icon: Gift },
+];
+
+export function AdminSidebar() {
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <span className="px-2 text-lg font-bold truncate">Tasty Bites</span>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Manage</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {sections.map((section) => (
+                <SidebarMenuItem key={section.url}>
+                  <SidebarMenuButton asChild tooltip={section.title}>
+                    <NavLink
+                      to={section.url}
+                      activeClassName="bg-sidebar-accent text-sidebar-accent-foreground font-medium"
+                    >
+                      <section.icon />
+                      <span>{section.title}</span>
+                    </NavLink>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { BranchHours, WEEKDAYS, formatTime } from "@/lib/branch-hours";
+
+// Browsers and Postgres both use the IANA zone names
+function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// Validation schema for branches
+const branchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  address: z.string().trim().min(1, "Address is required").max(255, "Address is too long"),
+  phone: z.string().trim().min(1, "Phone is required").max(20, "Phone number is too long"),
+  email: z.string().trim().email("Please enter a valid email address").max(100, "Email is too long").optional().or(z.literal("")),
+  timezone: z.string().trim().refine(isValidTimeZone, "Enter a time zone such as America/New_York"),
+  hours: z.array(
+    z.object({
+      open: z.boolean(),
+      opens_at: z.string(),
+      closes_at: z.string(),
+    }).refine(
+      (day) => !day.open || (day.opens_at && day.closes_at && day.closes_at > day.opens_at),
+      { message: "Closing time must be after opening time on the same day", path: ["closes_at"] }
+    )
+  ).length(7),
+});
+
+type BranchFormValues = z.infer<typeof branchSchema>;
+
+export interface EditableBranch {
+  id: string;
+  name: string;
+  address: string;
+  phone: string;
+  email: string | null;
+  timezone: string;
+  branch_hours: BranchHours[];
+}
+
+interface BranchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branch: EditableBranch | null;
+  onSaved: () => void;
+}
+
+const toFormHours = (hours: BranchHours[]) =>
+  WEEKDAYS.map((_, weekday) => {
+    const day = hours.find((h) => h.weekday === weekday);
+    return {
+      open: !!day,
+      opens_at: day ? formatTime(day.opens_at) : "11:00",
+      closes_at: day ? formatTime(day.closes_at) : "22:00",
+    };
+  });
+
+export function BranchDialog({ open, onOpenChange, branch, onSaved }: BranchDialogProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<BranchFormValues>({
+    resolver: zodResolver(branchSchema),
+    defaultValues: {
+      name: "",
+      address: "",
+      phone: "",
+      email: "",
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      hours: toFormHours([]),
+    },
+  });
+  const { fields } = useFieldArray({ control: form.control, name: "hours" });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: branch?.name ?? "",
+        address: branch?.address ?? "",
+        phone: branch?.phone ?? "",
+        email: branch?.email ?? "",
+        timezone: branch?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+        hours: toFormHours(branch?.branch_hours ?? []),
+      });
+    }
+  }, [open, branch, form]);
+
+  const onSubmit = async (values: BranchFormValues) => {
+    setSaving(true);
+
+    try {
+      // Closed days have no row; the branch and its whole week are saved in one transaction
+      const openDays = values.hours
+        .map((day, weekday) => ({ ...day, weekday }))
+        .filter((day) => day.open);
+
+      const { error } = await supabase.rpc("save_branch", {
+        _branch_id: branch?.id ?? null,
+        _name: values.name,
+        _address: values.address,
+        _phone: values.phone,
+        _email: values.email || null,
+        _timezone: values.timezone,
+        _hours: openDays.map((day) => ({
+          weekday: day.weekday,
+          opens_at: day.opens_at,
+          closes_at: day.closes_at,
+        })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: branch ? "Branch updated" : "Branch created",
+        description: values.name,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving branch",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{branch ? "Edit Branch" : "New Branch"}</DialogTitle>
+          <DialogDescription>Contact details and opening hours shown to customers.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input maxLength={100} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input maxLength={255} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="+1-555-0100" maxLength={20} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" maxLength={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time Zone</FormLabel>
+                  <FormControl>
+                    <Input placeholder="America/New_York" maxLength={64} {...field} />
+                  </FormControl>
+                  <FormDescription>Opening hours and scheduled order times are read in this zone.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>Opening Hours</Label>
+              <p className="text-sm text-muted-foreground">
+                Each day must close before midnight; hours running into the next day aren't supported.
+              </p>
+              {fields.map((field, index) => {
+                const isOpen = form.watch(`hours.${index}.open`);
+                return (
+                  <div key={field.id} className="grid grid-cols-[7rem_auto_1fr_1fr] items-start gap-2">
+                    <span className="pt-2 text-sm">{WEEKDAYS[index]}</span>
+                    <FormField
+                      control={form.control}
+                      name={`hours.${index}.open`}
+                      render={({ field }) => (
+                        <FormItem className="pt-2">
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {isOpen ? (
+                      <>
+                        <FormField
+                          control={form.control}
+                          name={`hours.${index}.opens_at`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="time" {...field} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`hours.${index}.closes_at`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="time" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </>
+                    ) : (
+                      <span className="col-span-2 pt-2 text-sm text-muted-foreground">Closed</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+// Validation schema for menu categories
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(500, "Description is too long"),
+});
+
+type CategoryFormValues = z.infer<typeof categorySchema>;
+
+export interface EditableCategory {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+interface CategoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  category: EditableCategory | null;
+  nextSortOrder: number;
+  onSaved: () => void;
+}
+
+export function CategoryDialog({ open, onOpenChange, category, nextSortOrder, onSaved }: CategoryDialogProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: { name: "", description: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: category?.name ?? "",
+        description: category?.description ?? "",
+      });
+    }
+  }, [open, category, form]);
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    setSaving(true);
+
+    try {
+      const payload = {
+        name: values.name,
+        description: values.description || null,
+      };
+
+      // New categories go to the end of the menu
+      const { error } = category
+        ? await supabase.from("menu_categories").update(payload).eq("id", category.id)
+        : await supabase.from("menu_categories").insert({ ...payload, sort_order: nextSortOrder });
+
+      if (error) throw error;
+
+      toast({
+        title: category ? "Category updated" : "Category created",
+        description: values.name,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving category",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Category" : "New Category"}</DialogTitle>
+          <DialogDescription>Categories appear as tabs on the customer menu.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input maxLength={100} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} maxLength={500} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+
+// Validation schema for combos
+const comboSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(1000, "Description is too long"),
+  price: z.coerce.number().min(0, "Price cannot be negative").max(99999999.99, "Price is too high"),
+  available: z.boolean(),
+});
+
+type ComboFormValues = z.infer<typeof comboSchema>;
+
+export interface EditableCombo {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  available: boolean;
+  photo_url: string | null;
+}
+
+interface ComboDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  combo: EditableCombo | null;
+  onSaved: () => void;
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+export function ComboDialog({ open, onOpenChange, combo, onSaved }: ComboDialogProps) {
+  const { toast } = useToast();
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ComboFormValues>({
+    resolver: zodResolver(comboSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      price: 0,
+      available: true,
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: combo?.name ?? "",
+        description: combo?.description ?? "",
+        price: combo?.price ?? 0,
+        available: combo?.available ?? true,
+      });
+      setPhoto(null);
+    }
+  }, [open, combo, form]);
+
+  const uploadPhoto = async (file: File) => {
+    const extension = file.name.split(".").pop();
+    const path = `${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from("menu-photos")
+      .upload(path, file, { contentType: file.type });
+
+    if (error) throw error;
+
+    return supabase.storage.from("menu-photos").getPublicUrl(path).data.publicUrl;
+  };
+
+  const onSubmit = async (values: ComboFormValues) => {
+    if (photo && photo.size > MAX_PHOTO_SIZE) {
+      toast({ variant: "destructive", title: "Photo must be 5 MB or smaller" });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const photoUrl = photo ? await uploadPhoto(photo) : combo?.photo_url ?? null;
+      const payload = {
+        name: values.name,
+        description: values.description || null,
+        price: values.price,
+        available: values.available,
+        photo_url: photoUrl,
+      };
+
+      const { error } = combo
+        ? await supabase.from("combos").update(payload).eq("id", combo.id)
+        : await supabase.from("combos").insert(payload);
+
+      if (error) throw error;
+
+      toast({
+        title: combo ? "Combo updated" : "Combo created",
+        description: values.name,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving combo",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{combo ? "Edit Combo" : "New Combo"}</DialogTitle>
+          <DialogDescription>
+            {combo
+              ? "Update the details customers see on the menu."
+              : "Add a combo, then choose the items that make it up."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input maxLength={100} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} maxLength={1000} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price ($)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" {...field} />
+                  </FormControl>
+                  <FormDescription>Charged for the combo as a whole, before any upcharges.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="available"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Available</FormLabel>
+                    <FormDescription>Unavailable combos are hidden from customers.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="photo">Photo</Label>
+              {combo?.photo_url && !photo && (
+                <img src={combo.photo_url} alt={combo.name} className="h-32 w-full rounded-md object-cover" />
+              )}
+              <Input
+                id="photo"
+                type="file"
+                accept="image/*"
+                onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-sm text-muted-foreground">JPEG, PNG or WebP up to 5 MB.</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
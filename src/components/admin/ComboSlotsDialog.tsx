@@ -0,0 +1,243 @@
+import { useState, useEffect } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+
+// Validation schemas for combo slots and options
+const slotSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+});
+
+const optionSchema = z.object({
+  menu_id: z.string().min(1, "Choose a menu item"),
+  price_delta: z.coerce.number().min(0, "Upcharge cannot be negative").max(99999999.99),
+});
+
+interface ComboSlot {
+  id: string;
+  name: string;
+  combo_slot_options: Array<{
+    id: string;
+    menu_id: string;
+    price_delta: number;
+    menu: {
+      name: string;
+    } | null;
+  }>;
+}
+
+interface ComboSlotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  combo: { id: string; name: string } | null;
+  menuItems: Array<{ id: string; name: string }>;
+}
+
+const emptyOption = { menu_id: "", price_delta: "0" };
+
+export function ComboSlotsDialog({ open, onOpenChange, combo, menuItems }: ComboSlotsDialogProps) {
+  const { toast } = useToast();
+  const [slots, setSlots] = useState<ComboSlot[]>([]);
+  const [newSlotName, setNewSlotName] = useState("");
+  const [newOptions, setNewOptions] = useState<Record<string, typeof emptyOption>>({});
+
+  useEffect(() => {
+    if (open && combo) {
+      setNewSlotName("");
+      setNewOptions({});
+      fetchSlots();
+    }
+  }, [open, combo]);
+
+  const fetchSlots = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("combo_slots")
+        .select("id, name, combo_slot_options(id, menu_id, price_delta, menu(name))")
+        .eq("combo_id", combo.id)
+        .order("sort_order")
+        .order("sort_order", { referencedTable: "combo_slot_options" });
+
+      if (error) throw error;
+      setSlots(data || []);
+    } catch (error) {
+      console.error("Error fetching combo slots:", error);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: (error as Error).message,
+    });
+  };
+
+  const addSlot = async () => {
+    const result = slotSchema.safeParse({ name: newSlotName });
+    if (!result.success) {
+      toast({ variant: "destructive", title: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("combo_slots").insert({
+        combo_id: combo.id,
+        name: result.data.name,
+        sort_order: slots.length + 1,
+      });
+
+      if (error) throw error;
+      setNewSlotName("");
+      fetchSlots();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const deleteSlot = async (slotId: string) => {
+    try {
+      const { error } = await supabase.from("combo_slots").delete().eq("id", slotId);
+      if (error) throw error;
+      fetchSlots();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const addOption = async (slot: ComboSlot) => {
+    const result = optionSchema.safeParse(newOptions[slot.id] || emptyOption);
+    if (!result.success) {
+      toast({ variant: "destructive", title: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("combo_slot_options").insert({
+        slot_id: slot.id,
+        menu_id: result.data.menu_id,
+        price_delta: result.data.price_delta,
+        sort_order: slot.combo_slot_options.length + 1,
+      });
+
+      if (error) throw error;
+      setNewOptions((prev) => ({ ...prev, [slot.id]: emptyOption }));
+      fetchSlots();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const deleteOption = async (optionId: string) => {
+    try {
+      const { error } = await supabase.from("combo_slot_options").delete().eq("id", optionId);
+      if (error) throw error;
+      fetchSlots();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const setNewOption = (slotId: string, field: keyof typeof emptyOption, value: string) => {
+    setNewOptions((prev) => ({
+      ...prev,
+      [slotId]: { ...(prev[slotId] || emptyOption), [field]: value },
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Items in {combo?.name}</DialogTitle>
+          <DialogDescription>
+            Customers choose one item for each slot. Items are made as listed on the menu, without their
+            modifiers, and the combo is hidden at branches that don't sell anything for one of its slots.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {slots.map((slot) => (
+            <div key={slot.id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold">{slot.name}</p>
+                <Button size="icon" variant="outline" onClick={() => deleteSlot(slot.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {slot.combo_slot_options.map((option) => (
+                <div key={option.id} className="flex items-center justify-between text-sm">
+                  <span>{option.menu?.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">
+                      {option.price_delta > 0 ? `+$${option.price_delta.toFixed(2)}` : "Included"}
+                    </span>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteOption(option.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <Select
+                  value={(newOptions[slot.id] || emptyOption).menu_id}
+                  onValueChange={(v) => setNewOption(slot.id, "menu_id", v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a menu item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {menuItems
+                      .filter((item) => !slot.combo_slot_options.some((o) => o.menu_id === item.id))
+                      .map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className="w-28"
+                  value={(newOptions[slot.id] || emptyOption).price_delta}
+                  onChange={(e) => setNewOption(slot.id, "price_delta", e.target.value)}
+                />
+                <Button size="icon" variant="outline" onClick={() => addOption(slot)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="rounded-lg border border-dashed p-4 space-y-3">
+            <p className="font-semibold">New Slot</p>
+            <div className="space-y-1">
+              <Label htmlFor="slot-name">Name</Label>
+              <Input
+                id="slot-name"
+                placeholder="e.g. Drink"
+                maxLength={100}
+                value={newSlotName}
+                onChange={(e) => setNewSlotName(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={addSlot}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Slot
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
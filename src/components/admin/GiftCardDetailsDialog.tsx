@@ -0,0 +1,163 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+export interface GiftCardSummary {
+  id: string;
+  code: string;
+  initial_amount: number;
+  recipient_name: string | null;
+  recipient_email: string | null;
+  notes: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  created_at: string;
+  balance: number;
+}
+
+interface GiftCardTransaction {
+  id: string;
+  order_id: string | null;
+  amount: number;
+  reason: string;
+  created_at: string;
+  profiles: {
+    name: string;
+  } | null;
+}
+
+interface GiftCardDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card: GiftCardSummary | null;
+  onVoided: () => void;
+}
+
+export function GiftCardDetailsDialog({ open, onOpenChange, card, onVoided }: GiftCardDetailsDialogProps) {
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<GiftCardTransaction[]>([]);
+  const [reason, setReason] = useState("");
+  const [voiding, setVoiding] = useState(false);
+
+  useEffect(() => {
+    if (open && card) {
+      setReason("");
+      fetchTransactions();
+    }
+  }, [open, card]);
+
+  const fetchTransactions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("gift_card_transactions")
+        .select("id, order_id, amount, reason, created_at, profiles(name)")
+        .eq("gift_card_id", card.id)
+        .order("created_at");
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (error) {
+      console.error("Error fetching gift card history:", error);
+    }
+  };
+
+  const handleVoid = async () => {
+    setVoiding(true);
+
+    try {
+      const { error } = await supabase.rpc("void_gift_card", {
+        _gift_card_id: card.id,
+        _reason: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Gift card voided", description: card.code });
+      onOpenChange(false);
+      onVoided();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't void gift card",
+        description: (error as Error).message,
+      });
+    } finally {
+      setVoiding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{card?.code}</DialogTitle>
+          <DialogDescription>
+            ${card?.balance.toFixed(2)} left of ${card?.initial_amount.toFixed(2)}
+            {card?.recipient_name && ` · for ${card.recipient_name}`}
+            {card?.recipient_email && ` (${card.recipient_email})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {card?.notes && <p className="text-sm">{card.notes}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Activity</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((transaction) => (
+              <TableRow key={transaction.id}>
+                <TableCell>{format(new Date(transaction.created_at), "PPp")}</TableCell>
+                <TableCell className="capitalize">{transaction.reason}</TableCell>
+                <TableCell className="font-mono">
+                  {transaction.order_id ? `#${transaction.order_id.slice(0, 8)}` : "–"}
+                </TableCell>
+                <TableCell>{transaction.profiles?.name ?? "–"}</TableCell>
+                <TableCell className={`text-right ${transaction.amount > 0 ? "text-success" : ""}`}>
+                  {transaction.amount > 0 ? "+" : "-"}${Math.abs(transaction.amount).toFixed(2)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {card?.voided_at ? (
+          <p className="text-sm text-destructive">
+            Voided {format(new Date(card.voided_at), "PPp")}
+            {card.void_reason && `: ${card.void_reason}`}
+          </p>
+        ) : (
+          <div className="space-y-2 rounded-lg border border-destructive/50 p-4">
+            <Label htmlFor="void-reason">Void this card</Label>
+            <Textarea
+              id="void-reason"
+              placeholder="e.g. Reported lost by the customer"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={500}
+            />
+            <p className="text-xs text-muted-foreground">
+              The remaining balance is written off and the code stops working at checkout.
+            </p>
+            <Button variant="destructive" onClick={handleVoid} disabled={voiding || !reason.trim()}>
+              {voiding ? "Voiding..." : "Void Card"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+// Validation schema for issuing gift cards
+const giftCardSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be more than 0").max(10000, "Amount is too high"),
+  recipient_name: z.string().trim().max(100, "Name is too long"),
+  recipient_email: z.string().trim().email("Please enter a valid email address").max(100, "Email is too long").optional().or(z.literal("")),
+  notes: z.string().trim().max(1000, "Notes are too long"),
+});
+
+type GiftCardFormValues = z.infer<typeof giftCardSchema>;
+
+interface IssueGiftCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onIssued: () => void;
+}
+
+export function IssueGiftCardDialog({ open, onOpenChange, onIssued }: IssueGiftCardDialogProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<GiftCardFormValues>({
+    resolver: zodResolver(giftCardSchema),
+    defaultValues: {
+      amount: 25,
+      recipient_name: "",
+      recipient_email: "",
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ amount: 25, recipient_name: "", recipient_email: "", notes: "" });
+    }
+  }, [open, form]);
+
+  const onSubmit = async (values: GiftCardFormValues) => {
+    setSaving(true);
+
+    try {
+      const { data, error } = await supabase.rpc("issue_gift_card", {
+        _amount: values.amount,
+        _recipient_name: values.recipient_name || null,
+        _recipient_email: values.recipient_email || null,
+        _notes: values.notes || null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: `$${values.amount.toFixed(2)} gift card issued`,
+        description: data.code,
+      });
+
+      onOpenChange(false);
+      onIssued();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error issuing gift card",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Issue Gift Card</DialogTitle>
+          <DialogDescription>A unique code is generated for the card once it's issued.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount ($)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="recipient_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Recipient</FormLabel>
+                    <FormControl>
+                      <Input maxLength={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="recipient_email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Recipient email</FormLabel>
+                    <FormControl>
+                      <Input type="email" maxLength={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. Bought by Acme Ltd, invoice 1042" rows={3} maxLength={1000} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Issuing..." : "Issue Card"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
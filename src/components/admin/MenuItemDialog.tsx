@@ -0,0 +1,328 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { ALLERGEN_LABELS, Allergen, DIETARY_TAG_LABELS, DietaryTag } from "@/lib/dietary";
+
+// Validation schema for menu items
+const menuItemSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(1000, "Description is too long"),
+  price: z.coerce.number().min(0, "Price cannot be negative").max(99999999.99, "Price is too high"),
+  category_id: z.string().min(1, "Category is required"),
+  available: z.boolean(),
+  dietary_tags: z.array(z.enum(Object.keys(DIETARY_TAG_LABELS) as [DietaryTag, ...DietaryTag[]])),
+  allergens: z.array(z.enum(Object.keys(ALLERGEN_LABELS) as [Allergen, ...Allergen[]])),
+});
+
+type MenuItemFormValues = z.infer<typeof menuItemSchema>;
+
+export interface EditableMenuItem {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  category_id: string | null;
+  available: boolean | null;
+  photo_url: string | null;
+  dietary_tags: DietaryTag[];
+  allergens: Allergen[];
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface MenuItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: EditableMenuItem | null;
+  categories: Category[];
+  onSaved: () => void;
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+export function MenuItemDialog({ open, onOpenChange, item, categories, onSaved }: MenuItemDialogProps) {
+  const { toast } = useToast();
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<MenuItemFormValues>({
+    resolver: zodResolver(menuItemSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      price: 0,
+      category_id: "",
+      available: true,
+      dietary_tags: [],
+      allergens: [],
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: item?.name ?? "",
+        description: item?.description ?? "",
+        price: item?.price ?? 0,
+        category_id: item?.category_id ?? "",
+        available: item?.available ?? true,
+        dietary_tags: item?.dietary_tags ?? [],
+        allergens: item?.allergens ?? [],
+      });
+      setPhoto(null);
+    }
+  }, [open, item, form]);
+
+  const uploadPhoto = async (file: File) => {
+    const extension = file.name.split(".").pop();
+    const path = `${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from("menu-photos")
+      .upload(path, file, { contentType: file.type });
+
+    if (error) throw error;
+
+    return supabase.storage.from("menu-photos").getPublicUrl(path).data.publicUrl;
+  };
+
+  const onSubmit = async (values: MenuItemFormValues) => {
+    if (photo && photo.size > MAX_PHOTO_SIZE) {
+      toast({ variant: "destructive", title: "Photo must be 5 MB or smaller" });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const photoUrl = photo ? await uploadPhoto(photo) : item?.photo_url ?? null;
+      const payload = {
+        name: values.name,
+        description: values.description || null,
+        price: values.price,
+        category_id: values.category_id,
+        available: values.available,
+        dietary_tags: values.dietary_tags,
+        allergens: values.allergens,
+        photo_url: photoUrl,
+      };
+
+      const { error } = item
+        ? await supabase.from("menu").update(payload).eq("id", item.id)
+        : await supabase.from("menu").insert(payload);
+
+      if (error) throw error;
+
+      toast({
+        title: item ? "Menu item updated" : "Menu item created",
+        description: values.name,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving menu item",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item ? "Edit Menu Item" : "New Menu Item"}</DialogTitle>
+          <DialogDescription>
+            {item ? "Update the details customers see on the menu." : "Add a new item to the menu."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input maxLength={100} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} maxLength={1000} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="available"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Available</FormLabel>
+                    <FormDescription>Unavailable items are hidden from customers.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dietary_tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Suitable for</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(DIETARY_TAG_LABELS) as DietaryTag[]).map((tag) => (
+                      <div key={tag} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`tag-${tag}`}
+                          checked={field.value.includes(tag)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked ? [...field.value, tag] : field.value.filter((t) => t !== tag))
+                          }
+                        />
+                        <Label htmlFor={`tag-${tag}`} className="font-normal">{DIETARY_TAG_LABELS[tag]}</Label>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="allergens"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contains</FormLabel>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map((allergen) => (
+                      <div key={allergen} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`allergen-${allergen}`}
+                          checked={field.value.includes(allergen)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, allergen] : field.value.filter((a) => a !== allergen)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`allergen-${allergen}`} className="font-normal">
+                          {ALLERGEN_LABELS[allergen]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <FormDescription>Customers are warned at checkout about allergens they've saved.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="photo">Photo</Label>
+              {item?.photo_url && !photo && (
+                <img src={item.photo_url} alt={item.name} className="h-32 w-full rounded-md object-cover" />
+              )}
+              <Input
+                id="photo"
+                type="file"
+                accept="image/*"
+                onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-sm text-muted-foreground">JPEG, PNG or WebP up to 5 MB.</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState, useEffect } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ModifierGroup } from "@/components/ModifierDialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+
+// Validation schemas for modifier groups and options
+const groupSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  min_selections: z.coerce.number().int().min(0, "Minimum cannot be negative"),
+  max_selections: z.coerce.number().int().min(1, "Maximum must be at least 1"),
+}).refine(
+  (data) => data.max_selections >= data.min_selections,
+  { message: "Maximum must be at least the minimum", path: ["max_selections"] }
+);
+
+const optionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  price_delta: z.coerce.number().min(-99999999.99).max(99999999.99),
+});
+
+interface ModifierGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: { id: string; name: string } | null;
+}
+
+const emptyGroup = { name: "", min_selections: "0", max_selections: "1" };
+const emptyOption = { name: "", price_delta: "0" };
+
+export function ModifierGroupsDialog({ open, onOpenChange, item }: ModifierGroupsDialogProps) {
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [newGroup, setNewGroup] = useState(emptyGroup);
+  const [newOptions, setNewOptions] = useState<Record<string, typeof emptyOption>>({});
+
+  useEffect(() => {
+    if (open && item) {
+      setNewGroup(emptyGroup);
+      setNewOptions({});
+      fetchGroups();
+    }
+  }, [open, item]);
+
+  const fetchGroups = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("modifier_groups")
+        .select("*, modifier_options(*)")
+        .eq("menu_id", item.id)
+        .order("sort_order")
+        .order("sort_order", { referencedTable: "modifier_options" });
+
+      if (error) throw error;
+      setGroups(data || []);
+    } catch (error) {
+      console.error("Error fetching modifiers:", error);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: (error as Error).message,
+    });
+  };
+
+  const addGroup = async () => {
+    const result = groupSchema.safeParse(newGroup);
+    if (!result.success) {
+      toast({ variant: "destructive", title: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("modifier_groups").insert({
+        menu_id: item.id,
+        name: result.data.name,
+        min_selections: result.data.min_selections,
+        max_selections: result.data.max_selections,
+        sort_order: groups.length + 1,
+      });
+
+      if (error) throw error;
+      setNewGroup(emptyGroup);
+      fetchGroups();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const deleteGroup = async (groupId: string) => {
+    try {
+      const { error } = await supabase.from("modifier_groups").delete().eq("id", groupId);
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const addOption = async (group: ModifierGroup) => {
+    const result = optionSchema.safeParse(newOptions[group.id] || emptyOption);
+    if (!result.success) {
+      toast({ variant: "destructive", title: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("modifier_options").insert({
+        group_id: group.id,
+        name: result.data.name,
+        price_delta: result.data.price_delta,
+        sort_order: group.modifier_options.length + 1,
+      });
+
+      if (error) throw error;
+      setNewOptions((prev) => ({ ...prev, [group.id]: emptyOption }));
+      fetchGroups();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const deleteOption = async (optionId: string) => {
+    try {
+      const { error } = await supabase.from("modifier_options").delete().eq("id", optionId);
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const setNewOption = (groupId: string, field: keyof typeof emptyOption, value: string) => {
+    setNewOptions((prev) => ({
+      ...prev,
+      [groupId]: { ...(prev[groupId] || emptyOption), [field]: value },
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifiers for {item?.name}</DialogTitle>
+          <DialogDescription>
+            Groups with a minimum of 1 or more are required when customers add this item.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <div key={group.id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-semibold">{group.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Choose {group.min_selections}–{group.max_selections}
+                  </p>
+                </div>
+                <Button size="icon" variant="outline" onClick={() => deleteGroup(group.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {group.modifier_options.map((option) => (
+                <div key={option.id} className="flex items-center justify-between text-sm">
+                  <span>{option.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">
+                      {option.price_delta >= 0 ? "+" : "-"}${Math.abs(option.price_delta).toFixed(2)}
+                    </span>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteOption(option.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Option name"
+                  maxLength={100}
+                  value={(newOptions[group.id] || emptyOption).name}
+                  onChange={(e) => setNewOption(group.id, "name", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  className="w-28"
+                  value={(newOptions[group.id] || emptyOption).price_delta}
+                  onChange={(e) => setNewOption(group.id, "price_delta", e.target.value)}
+                />
+                <Button size="icon" variant="outline" onClick={() => addOption(group)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="rounded-lg border border-dashed p-4 space-y-3">
+            <p className="font-semibold">New Group</p>
+            <div className="grid grid-cols-[1fr_6rem_6rem] gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="group-name">Name</Label>
+                <Input
+                  id="group-name"
+                  placeholder="e.g. Size"
+                  maxLength={100}
+                  value={newGroup.name}
+                  onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="group-min">Min</Label>
+                <Input
+                  id="group-min"
+                  type="number"
+                  min="0"
+                  value={newGroup.min_selections}
+                  onChange={(e) => setNewGroup({ ...newGroup, min_selections: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="group-max">Max</Label>
+                <Input
+                  id="group-max"
+                  type="number"
+                  min="1"
+                  value={newGroup.max_selections}
+                  onChange={(e) => setNewGroup({ ...newGroup, max_selections: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button variant="outline" onClick={addGroup}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Group
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,479 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { PROMO_TYPE_LABELS, PromoCode, PromoType } from "@/lib/promo";
+
+const ORDER_TYPES = [
+  { value: "dine_in", label: "Dine In" },
+  { value: "takeaway", label: "Takeaway" },
+  { value: "delivery", label: "Delivery" },
+] as const;
+
+// Blank means "no limit"
+const optionalCount = z.string().trim().refine(
+  (value) => value === "" || (Number.isInteger(Number(value)) && Number(value) >= 1),
+  "Must be a whole number of at least 1"
+);
+
+// Validation schema for promo codes
+const promoSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(32, "Code is too long")
+    .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores only"),
+  description: z.string().trim().max(200, "Description is too long"),
+  promo_type: z.enum(["percentage", "fixed_amount", "free_delivery", "buy_x_get_y"]),
+  value: z.string().trim(),
+  buy_menu_id: z.string(),
+  buy_quantity: z.string().trim(),
+  get_quantity: z.string().trim(),
+  min_subtotal: z.coerce.number().min(0, "Minimum cannot be negative").max(99999999.99, "Minimum is too high"),
+  starts_at: z.string(),
+  ends_at: z.string(),
+  branch_ids: z.array(z.string()),
+  order_types: z.array(z.enum(["dine_in", "takeaway", "delivery"])),
+  max_uses: optionalCount,
+  max_uses_per_user: optionalCount,
+  active: z.boolean(),
+}).refine(
+  (data) => data.promo_type !== "percentage" || (Number(data.value) > 0 && Number(data.value) <= 100),
+  { message: "Percentage must be between 1 and 100", path: ["value"] }
+).refine(
+  (data) => data.promo_type !== "fixed_amount" || Number(data.value) > 0,
+  { message: "Amount must be more than 0", path: ["value"] }
+).refine(
+  (data) => data.promo_type !== "buy_x_get_y" || !!data.buy_menu_id,
+  { message: "Choose the item customers buy", path: ["buy_menu_id"] }
+).refine(
+  (data) => data.promo_type !== "buy_x_get_y"
+    || (Number.isInteger(Number(data.buy_quantity)) && Number(data.buy_quantity) >= 1
+      && Number.isInteger(Number(data.get_quantity)) && Number(data.get_quantity) >= 1),
+  { message: "Both quantities must be at least 1", path: ["get_quantity"] }
+).refine(
+  (data) => !data.starts_at || !data.ends_at || data.ends_at > data.starts_at,
+  { message: "End must be after the start", path: ["ends_at"] }
+);
+
+type PromoFormValues = z.infer<typeof promoSchema>;
+
+interface PromoCodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  promo: PromoCode | null;
+  menuItems: { id: string; name: string }[];
+  branches: { id: string; name: string }[];
+  onSaved: () => void;
+}
+
+const toLocalInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "");
+const toCount = (value: string) => (value ? Number(value) : null);
+
+export function PromoCodeDialog({ open, onOpenChange, promo, menuItems, branches, onSaved }: PromoCodeDialogProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<PromoFormValues>({
+    resolver: zodResolver(promoSchema),
+    defaultValues: {
+      code: "",
+      description: "",
+      promo_type: "percentage",
+      value: "",
+      buy_menu_id: "",
+      buy_quantity: "1",
+      get_quantity: "1",
+      min_subtotal: 0,
+      starts_at: "",
+      ends_at: "",
+      branch_ids: [],
+      order_types: [],
+      max_uses: "",
+      max_uses_per_user: "",
+      active: true,
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        code: promo?.code ?? "",
+        description: promo?.description ?? "",
+        promo_type: promo?.promo_type ?? "percentage",
+        value: promo?.value != null ? String(promo.value) : "",
+        buy_menu_id: promo?.buy_menu_id ?? "",
+        buy_quantity: String(promo?.buy_quantity ?? 1),
+        get_quantity: String(promo?.get_quantity ?? 1),
+        min_subtotal: promo?.min_subtotal ?? 0,
+        starts_at: toLocalInput(promo?.starts_at ?? null),
+        ends_at: toLocalInput(promo?.ends_at ?? null),
+        branch_ids: promo?.branch_ids ?? [],
+        order_types: promo?.order_types ?? [],
+        max_uses: promo?.max_uses != null ? String(promo.max_uses) : "",
+        max_uses_per_user: promo?.max_uses_per_user != null ? String(promo.max_uses_per_user) : "",
+        active: promo?.active ?? true,
+      });
+    }
+  }, [open, promo, form]);
+
+  const promoType = form.watch("promo_type");
+
+  const onSubmit = async (values: PromoFormValues) => {
+    setSaving(true);
+
+    try {
+      const usesValue = values.promo_type === "percentage" || values.promo_type === "fixed_amount";
+      const isBuyGet = values.promo_type === "buy_x_get_y";
+
+      // Empty restriction lists are stored as NULL, meaning "any"
+      const payload = {
+        code: values.code.toUpperCase(),
+        description: values.description || null,
+        promo_type: values.promo_type,
+        value: usesValue ? Number(values.value) : null,
+        buy_menu_id: isBuyGet ? values.buy_menu_id : null,
+        buy_quantity: isBuyGet ? Number(values.buy_quantity) : null,
+        get_quantity: isBuyGet ? Number(values.get_quantity) : null,
+        min_subtotal: values.min_subtotal,
+        starts_at: values.starts_at ? new Date(values.starts_at).toISOString() : null,
+        ends_at: values.ends_at ? new Date(values.ends_at).toISOString() : null,
+        branch_ids: values.branch_ids.length > 0 ? values.branch_ids : null,
+        order_types: values.order_types.length > 0 ? values.order_types : null,
+        max_uses: toCount(values.max_uses),
+        max_uses_per_user: toCount(values.max_uses_per_user),
+        active: values.active,
+      };
+
+      const { error } = promo
+        ? await supabase.from("promo_codes").update(payload).eq("id", promo.id)
+        : await supabase.from("promo_codes").insert(payload);
+
+      if (error) throw error;
+
+      toast({
+        title: promo ? "Promo code updated" : "Promo code created",
+        description: payload.code,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving promo code",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{promo ? "Edit Promo Code" : "New Promo Code"}</DialogTitle>
+          <DialogDescription>
+            Customers enter the code at checkout. Restrictions left empty apply everywhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. WELCOME10"
+                        maxLength={32}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="promo_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(PROMO_TYPE_LABELS) as PromoType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {PROMO_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Shown to customers when the code is applied" maxLength={200} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {(promoType === "percentage" || promoType === "fixed_amount") && (
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{promoType === "percentage" ? "Percentage off" : "Amount off ($)"}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step={promoType === "percentage" ? "1" : "0.01"} min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {promoType === "buy_x_get_y" && (
+              <div className="grid grid-cols-[1fr_6rem_6rem] gap-4">
+                <FormField
+                  control={form.control}
+                  name="buy_menu_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Item</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose an item" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {menuItems.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="buy_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Buy</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="get_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Get free</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="min_subtotal"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum subtotal ($)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ends_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="max_uses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total uses</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="max_uses_per_user"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Uses per customer</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="order_types"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Order types</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {ORDER_TYPES.map((type) => (
+                      <div key={type.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`promo-type-${type.value}`}
+                          checked={field.value.includes(type.value)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, type.value] : field.value.filter((v) => v !== type.value)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`promo-type-${type.value}`} className="font-normal">
+                          {type.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="branch_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Branches</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {branches.map((branch) => (
+                      <div key={branch.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`promo-branch-${branch.id}`}
+                          checked={field.value.includes(branch.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, branch.id] : field.value.filter((v) => v !== branch.id)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`promo-branch-${branch.id}`} className="font-normal">
+                          {branch.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive codes are rejected at checkout.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
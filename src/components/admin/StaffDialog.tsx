@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+// Validation schema for staff records; email and name only apply when inviting
+const staffSchema = z.object({
+  email: z.string().trim().max(255, "Email is too long"),
+  name: z.string().trim().max(100, "Name is too long"),
+  branch_id: z.string().min(1, "Branch is required"),
+  salary: z.coerce.number().min(0, "Salary cannot be negative").max(99999999.99, "Salary is too high"),
+  working_hours: z.coerce.number().int("Hours must be a whole number").min(0, "Hours cannot be negative").max(168, "A week only has 168 hours"),
+  hired_date: z.string().min(1, "Hire date is required"),
+});
+
+const inviteSchema = staffSchema.extend({
+  email: z.string().trim().email("Please enter a valid email address").max(255, "Email is too long"),
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+});
+
+type StaffFormValues = z.infer<typeof staffSchema>;
+
+export interface EditableStaffMember {
+  id: string;
+  branch_id: string | null;
+  salary: number | null;
+  working_hours: number | null;
+  hired_date: string | null;
+  profiles: {
+    name: string;
+    email: string | null;
+  } | null;
+}
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+interface StaffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  member: EditableStaffMember | null;
+  branches: Branch[];
+  onSaved: () => void;
+}
+
+export function StaffDialog({ open, onOpenChange, member, branches, onSaved }: StaffDialogProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<StaffFormValues>({
+    resolver: zodResolver(member ? staffSchema : inviteSchema),
+    defaultValues: {
+      email: "",
+      name: "",
+      branch_id: "",
+      salary: 0,
+      working_hours: 40,
+      hired_date: format(new Date(), "yyyy-MM-dd"),
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        email: member?.profiles?.email ?? "",
+        name: member?.profiles?.name ?? "",
+        branch_id: member?.branch_id ?? "",
+        salary: member?.salary ?? 0,
+        working_hours: member?.working_hours ?? 40,
+        hired_date: member?.hired_date ?? format(new Date(), "yyyy-MM-dd"),
+      });
+    }
+  }, [open, member, form]);
+
+  const onSubmit = async (values: StaffFormValues) => {
+    setSaving(true);
+
+    try {
+      if (member) {
+        const { error } = await supabase
+          .from("staff")
+          .update({
+            branch_id: values.branch_id,
+            salary: values.salary,
+            working_hours: values.working_hours,
+            hired_date: values.hired_date,
+          })
+          .eq("id", member.id);
+
+        if (error) throw error;
+
+        toast({ title: "Staff member updated", description: member.profiles?.name });
+      } else {
+        // Sending invites needs the service role, so it runs in an edge function
+        const { data, error } = await supabase.functions.invoke("invite-staff", {
+          body: {
+            email: values.email,
+            name: values.name,
+            branch_id: values.branch_id,
+            salary: values.salary,
+            working_hours: values.working_hours,
+            hired_date: values.hired_date,
+            redirect_to: `${window.location.origin}/staff`,
+          },
+        });
+
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        toast({
+          title: data.invited ? "Invitation sent" : "Existing account added as staff",
+          description: values.email,
+        });
+      }
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving staff member",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{member ? `Edit ${member.profiles?.name || "Staff Member"}` : "Invite Staff"}</DialogTitle>
+          <DialogDescription>
+            {member
+              ? "Reassign this staff member or update their pay and hours."
+              : "We'll email an invitation. Existing customer accounts are converted to staff."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {!member && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="you@example.com" maxLength={255} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="John Doe" maxLength={100} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <FormField
+              control={form.control}
+              name="branch_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Branch</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a branch" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {branches.map((branch) => (
+                        <SelectItem key={branch.id} value={branch.id}>
+                          {branch.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="salary"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Salary ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="working_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hours / week</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="168" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="hired_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hired</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : member ? "Save" : "Send Invite"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
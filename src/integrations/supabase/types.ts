@@ -14,59 +14,472 @@ export type Database = {
   }
   public: {
     Tables: {
+      branch_hours: {
+        Row: {
+          branch_id: string
+          closes_at: string
+          created_at: string | null
+          id: string
+          opens_at: string
+          weekday: number
+        }
+        Insert: {
+          branch_id: string
+          closes_at: string
+          created_at?: string | null
+          id?: string
+          opens_at: string
+          weekday: number
+        }
+        Update: {
+          branch_id?: string
+          closes_at?: string
+          created_at?: string | null
+          id?: string
+          opens_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branch_hours_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      branch_menu: {
+        Row: {
+          available: boolean
+          branch_id: string
+          created_at: string | null
+          id: string
+          menu_id: string
+          price: number | null
+        }
+        Insert: {
+          available?: boolean
+          branch_id: string
+          created_at?: string | null
+          id?: string
+          menu_id: string
+          price?: number | null
+        }
+        Update: {
+          available?: boolean
+          branch_id?: string
+          created_at?: string | null
+          id?: string
+          menu_id?: string
+          price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branch_menu_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_menu_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menu"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       branches: {
         Row: {
           address: string
           created_at: string | null
+          email: string | null
           id: string
           name: string
           phone: string
+          timezone: string
           total_staff: number | null
         }
         Insert: {
           address: string
           created_at?: string | null
+          email?: string | null
           id?: string
           name: string
           phone: string
+          timezone?: string
           total_staff?: number | null
         }
         Update: {
           address?: string
           created_at?: string | null
+          email?: string | null
           id?: string
           name?: string
           phone?: string
+          timezone?: string
           total_staff?: number | null
         }
         Relationships: []
       }
+      carts: {
+        Row: {
+          branch_id: string
+          id: string
+          items: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          branch_id: string
+          id?: string
+          items?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          branch_id?: string
+          id?: string
+          items?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carts_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "carts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      combo_slot_options: {
+        Row: {
+          created_at: string | null
+          id: string
+          menu_id: string
+          price_delta: number
+          slot_id: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          menu_id: string
+          price_delta?: number
+          slot_id: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          menu_id?: string
+          price_delta?: number
+          slot_id?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "combo_slot_options_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menu"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "combo_slot_options_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "combo_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      combo_slots: {
+        Row: {
+          combo_id: string
+          created_at: string | null
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          combo_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          combo_id?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "combo_slots_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "combos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      combos: {
+        Row: {
+          archived_at: string | null
+          available: boolean
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          photo_url: string | null
+          price: number
+        }
+        Insert: {
+          archived_at?: string | null
+          available?: boolean
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          photo_url?: string | null
+          price: number
+        }
+        Update: {
+          archived_at?: string | null
+          available?: boolean
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          photo_url?: string | null
+          price?: number
+        }
+        Relationships: []
+      }
+      gift_card_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          gift_card_id: string
+          id: string
+          order_id: string | null
+          reason: Database["public"]["Enums"]["gift_card_reason"]
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          gift_card_id: string
+          id?: string
+          order_id?: string | null
+          reason: Database["public"]["Enums"]["gift_card_reason"]
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          gift_card_id?: string
+          id?: string
+          order_id?: string | null
+          reason?: Database["public"]["Enums"]["gift_card_reason"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_card_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_gift_card_id_fkey"
+            columns: ["gift_card_id"]
+            isOneToOne: false
+            referencedRelation: "gift_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gift_cards: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          initial_amount: number
+          issued_by: string | null
+          notes: string | null
+          recipient_email: string | null
+          recipient_name: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          initial_amount: number
+          issued_by?: string | null
+          notes?: string | null
+          recipient_email?: string | null
+          recipient_name?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          initial_amount?: number
+          issued_by?: string | null
+          notes?: string | null
+          recipient_email?: string | null
+          recipient_name?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_cards_issued_by_fkey"
+            columns: ["issued_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loyalty_tiers: {
+        Row: {
+          created_at: string
+          earn_rate: number
+          id: string
+          min_points: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          earn_rate: number
+          id?: string
+          min_points: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          earn_rate?: number
+          id?: string
+          min_points?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      loyalty_transactions: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string | null
+          points: number
+          reason: Database["public"]["Enums"]["loyalty_reason"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          points: number
+          reason: Database["public"]["Enums"]["loyalty_reason"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          points?: number
+          reason?: Database["public"]["Enums"]["loyalty_reason"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu: {
         Row: {
+          allergens: Database["public"]["Enums"]["allergen"][]
+          archived_at: string | null
           available: boolean | null
           category_id: string | null
           created_at: string | null
           description: string | null
+          dietary_tags: Database["public"]["Enums"]["dietary_tag"][]
           id: string
           name: string
           photo_url: string | null
           price: number
         }
         Insert: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
+          archived_at?: string | null
           available?: boolean | null
           category_id?: string | null
           created_at?: string | null
           description?: string | null
+          dietary_tags?: Database["public"]["Enums"]["dietary_tag"][]
           id?: string
           name: string
           photo_url?: string | null
           price: number
         }
         Update: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
+          archived_at?: string | null
           available?: boolean | null
           category_id?: string | null
           created_at?: string | null
           description?: string | null
+          dietary_tags?: Database["public"]["Enums"]["dietary_tag"][]
           id?: string
           name?: string
           photo_url?: string | null
@@ -88,50 +501,226 @@ export type Database = {
           description: string | null
           id: string
           name: string
+          sort_order: number
         }
         Insert: {
           created_at?: string | null
           description?: string | null
           id?: string
           name: string
+          sort_order?: number
         }
         Update: {
           created_at?: string | null
           description?: string | null
           id?: string
           name?: string
+          sort_order?: number
         }
         Relationships: []
       }
+      modifier_groups: {
+        Row: {
+          created_at: string | null
+          id: string
+          max_selections: number
+          menu_id: string
+          min_selections: number
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          max_selections?: number
+          menu_id: string
+          min_selections?: number
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          max_selections?: number
+          menu_id?: string
+          min_selections?: number
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menu"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string | null
+          group_id: string
+          id: string
+          name: string
+          price_delta: number
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string | null
+          group_id: string
+          id?: string
+          name: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string | null
+          group_id?: string
+          id?: string
+          name?: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          order_id: string
+          reason: string | null
+          status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          reason?: string | null
+          status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          reason?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ordered_item_modifiers: {
+        Row: {
+          created_at: string | null
+          id: string
+          modifier_option_id: string | null
+          name: string
+          ordered_item_id: string
+          price_delta: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          modifier_option_id?: string | null
+          name: string
+          ordered_item_id: string
+          price_delta?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          modifier_option_id?: string | null
+          name?: string
+          ordered_item_id?: string
+          price_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ordered_item_modifiers_modifier_option_id_fkey"
+            columns: ["modifier_option_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ordered_item_modifiers_ordered_item_id_fkey"
+            columns: ["ordered_item_id"]
+            isOneToOne: false
+            referencedRelation: "ordered_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ordered_items: {
         Row: {
+          combo_id: string | null
+          combo_slot: string | null
           created_at: string | null
           id: string
           menu_id: string | null
           notes: string | null
           order_id: string | null
+          parent_item_id: string | null
           price_each: number
           quantity: number
         }
         Insert: {
+          combo_id?: string | null
+          combo_slot?: string | null
           created_at?: string | null
           id?: string
           menu_id?: string | null
           notes?: string | null
           order_id?: string | null
+          parent_item_id?: string | null
           price_each: number
           quantity: number
         }
         Update: {
+          combo_id?: string | null
+          combo_slot?: string | null
           created_at?: string | null
           id?: string
           menu_id?: string | null
           notes?: string | null
           order_id?: string | null
+          parent_item_id?: string | null
           price_each?: number
           quantity?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "ordered_items_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "combos"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ordered_items_menu_id_fkey"
             columns: ["menu_id"]
@@ -146,17 +735,34 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ordered_items_parent_item_id_fkey"
+            columns: ["parent_item_id"]
+            isOneToOne: false
+            referencedRelation: "ordered_items"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
           branch_id: string | null
+          completed_by: string | null
           created_at: string | null
           delivery_address: string | null
           delivery_fee: number | null
+          discount: number
+          edited_at: string | null
+          gift_card_amount: number
+          gift_card_id: string | null
           id: string
+          idempotency_key: string | null
           notes: string | null
           order_type: Database["public"]["Enums"]["order_type"]
+          points_discount: number
+          points_redeemed: number
+          promo_code_id: string | null
+          scheduled_for: string | null
           status: Database["public"]["Enums"]["order_status"] | null
           tax: number | null
           tip: number | null
@@ -166,12 +772,22 @@ export type Database = {
         }
         Insert: {
           branch_id?: string | null
+          completed_by?: string | null
           created_at?: string | null
           delivery_address?: string | null
           delivery_fee?: number | null
+          discount?: number
+          edited_at?: string | null
+          gift_card_amount?: number
+          gift_card_id?: string | null
           id?: string
+          idempotency_key?: string | null
           notes?: string | null
           order_type: Database["public"]["Enums"]["order_type"]
+          points_discount?: number
+          points_redeemed?: number
+          promo_code_id?: string | null
+          scheduled_for?: string | null
           status?: Database["public"]["Enums"]["order_status"] | null
           tax?: number | null
           tip?: number | null
@@ -181,12 +797,22 @@ export type Database = {
         }
         Update: {
           branch_id?: string | null
+          completed_by?: string | null
           created_at?: string | null
           delivery_address?: string | null
           delivery_fee?: number | null
+          discount?: number
+          edited_at?: string | null
+          gift_card_amount?: number
+          gift_card_id?: string | null
           id?: string
+          idempotency_key?: string | null
           notes?: string | null
           order_type?: Database["public"]["Enums"]["order_type"]
+          points_discount?: number
+          points_redeemed?: number
+          promo_code_id?: string | null
+          scheduled_for?: string | null
           status?: Database["public"]["Enums"]["order_status"] | null
           tax?: number | null
           tip?: number | null
@@ -202,6 +828,27 @@ export type Database = {
             referencedRelation: "branches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_gift_card_id_fkey"
+            columns: ["gift_card_id"]
+            isOneToOne: false
+            referencedRelation: "gift_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_user_id_fkey"
             columns: ["user_id"]
@@ -213,6 +860,7 @@ export type Database = {
       }
       profiles: {
         Row: {
+          allergens: Database["public"]["Enums"]["allergen"][]
           created_at: string | null
           email: string | null
           id: string
@@ -221,6 +869,7 @@ export type Database = {
           user_type: Database["public"]["Enums"]["user_type"]
         }
         Insert: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
           created_at?: string | null
           email?: string | null
           id: string
@@ -229,6 +878,7 @@ export type Database = {
           user_type: Database["public"]["Enums"]["user_type"]
         }
         Update: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
           created_at?: string | null
           email?: string | null
           id?: string
@@ -238,10 +888,79 @@ export type Database = {
         }
         Relationships: []
       }
+      promo_codes: {
+        Row: {
+          active: boolean
+          branch_ids: string[] | null
+          buy_menu_id: string | null
+          buy_quantity: number | null
+          code: string
+          created_at: string
+          description: string | null
+          ends_at: string | null
+          get_quantity: number | null
+          id: string
+          max_uses: number | null
+          max_uses_per_user: number | null
+          min_subtotal: number
+          order_types: Database["public"]["Enums"]["order_type"][] | null
+          promo_type: Database["public"]["Enums"]["promo_type"]
+          starts_at: string | null
+          value: number | null
+        }
+        Insert: {
+          active?: boolean
+          branch_ids?: string[] | null
+          buy_menu_id?: string | null
+          buy_quantity?: number | null
+          code: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          min_subtotal?: number
+          order_types?: Database["public"]["Enums"]["order_type"][] | null
+          promo_type: Database["public"]["Enums"]["promo_type"]
+          starts_at?: string | null
+          value?: number | null
+        }
+        Update: {
+          active?: boolean
+          branch_ids?: string[] | null
+          buy_menu_id?: string | null
+          buy_quantity?: number | null
+          code?: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          min_subtotal?: number
+          order_types?: Database["public"]["Enums"]["order_type"][] | null
+          promo_type?: Database["public"]["Enums"]["promo_type"]
+          starts_at?: string | null
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_buy_menu_id_fkey"
+            columns: ["buy_menu_id"]
+            isOneToOne: false
+            referencedRelation: "menu"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       staff: {
         Row: {
           branch_id: string | null
           created_at: string | null
+          deactivated_at: string | null
           hired_date: string | null
           id: string
           salary: number | null
@@ -251,6 +970,7 @@ export type Database = {
         Insert: {
           branch_id?: string | null
           created_at?: string | null
+          deactivated_at?: string | null
           hired_date?: string | null
           id?: string
           salary?: number | null
@@ -260,6 +980,7 @@ export type Database = {
         Update: {
           branch_id?: string | null
           created_at?: string | null
+          deactivated_at?: string | null
           hired_date?: string | null
           id?: string
           salary?: number | null
@@ -309,7 +1030,51 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_combo_line: {
+        Args: { _item: Json; _order_id: string }
+        Returns: string
+      }
+      add_order_line: {
+        Args: { _item: Json; _order_id: string }
+        Returns: string
+      }
+      branch_price: {
+        Args: { _branch_id: string; _menu_id: string }
+        Returns: number
+      }
+      cancel_order: {
+        Args: { _order_id: string; _reason: string }
+        Returns: undefined
+      }
+      check_gift_card: { Args: { _code: string }; Returns: number }
+      check_promo_code: {
+        Args: {
+          _branch_id: string
+          _code: string
+          _order_type: Database["public"]["Enums"]["order_type"]
+        }
+        Returns: {
+          active: boolean
+          branch_ids: string[] | null
+          buy_menu_id: string | null
+          buy_quantity: number | null
+          code: string
+          created_at: string
+          description: string | null
+          ends_at: string | null
+          get_quantity: number | null
+          id: string
+          max_uses: number | null
+          max_uses_per_user: number | null
+          min_subtotal: number
+          order_types: Database["public"]["Enums"]["order_type"][] | null
+          promo_type: Database["public"]["Enums"]["promo_type"]
+          starts_at: string | null
+          value: number | null
+        }
+      }
       get_user_branch_id: { Args: { _user_id: string }; Returns: string }
+      gift_card_balance: { Args: { _gift_card_id: string }; Returns: number }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -317,9 +1082,157 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_available_at_branch: {
+        Args: { _branch_id: string; _menu_id: string }
+        Returns: boolean
+      }
+      is_branch_open_at: {
+        Args: { _at: string; _branch_id: string }
+        Returns: boolean
+      }
+      is_valid_status_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["order_status"]
+          _order_type: Database["public"]["Enums"]["order_type"]
+          _to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      is_valid_time_zone: {
+        Args: { _time_zone: string }
+        Returns: boolean
+      }
+      issue_gift_card: {
+        Args: {
+          _amount: number
+          _notes?: string
+          _recipient_email?: string
+          _recipient_name?: string
+        }
+        Returns: {
+          code: string
+          created_at: string
+          id: string
+          initial_amount: number
+          issued_by: string | null
+          notes: string | null
+          recipient_email: string | null
+          recipient_name: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+      }
+      loyalty_balance: { Args: { _user_id: string }; Returns: number }
+      loyalty_tier: {
+        Args: { _user_id: string }
+        Returns: {
+          created_at: string
+          earn_rate: number
+          id: string
+          min_points: number
+          name: string
+        }
+      }
+      place_order: {
+        Args: {
+          _branch_id: string
+          _delivery_address?: string
+          _gift_card_code?: string
+          _idempotency_key?: string
+          _items: Json
+          _notes?: string
+          _order_type: Database["public"]["Enums"]["order_type"]
+          _points?: number
+          _promo_code?: string
+          _scheduled_for?: string
+          _tip?: number
+        }
+        Returns: string
+      }
+      promo_code_usage: {
+        Args: never
+        Returns: {
+          discount_total: number
+          promo_code_id: string
+          uses: number
+        }[]
+      }
+      refresh_order_totals: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      refund_to_gift_card: {
+        Args: { _amount: number; _gift_card_id: string; _order_id: string }
+        Returns: undefined
+      }
+      reorder_menu_categories: {
+        Args: { _category_ids: string[] }
+        Returns: undefined
+      }
+      save_branch: {
+        Args: {
+          _address: string
+          _branch_id: string
+          _email: string
+          _hours: Json
+          _name: string
+          _phone: string
+          _timezone: string
+        }
+        Returns: string
+      }
+      set_branch_hours: {
+        Args: { _branch_id: string; _hours: Json }
+        Returns: undefined
+      }
+      set_staff_active: {
+        Args: { _active: boolean; _staff_id: string }
+        Returns: undefined
+      }
+      tip_report: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          order_count: number
+          staff_id: string
+          staff_name: string
+          tips_total: number
+        }[]
+      }
+      update_order_items: {
+        Args: { _items: Json; _order_id: string }
+        Returns: undefined
+      }
+      update_order_status: {
+        Args: {
+          _order_id: string
+          _reason?: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: undefined
+      }
+      void_gift_card: {
+        Args: { _gift_card_id: string; _reason: string }
+        Returns: undefined
+      }
     }
     Enums: {
+      allergen:
+        | "milk"
+        | "eggs"
+        | "fish"
+        | "shellfish"
+        | "tree_nuts"
+        | "peanuts"
+        | "wheat"
+        | "soy"
+        | "sesame"
       app_role: "admin" | "staff" | "customer"
+      dietary_tag: "vegetarian" | "vegan" | "gluten_free" | "halal"
+      gift_card_reason: "issued" | "redeemed" | "refunded" | "voided"
+      loyalty_reason: "earned" | "redeemed" | "refunded"
       order_status:
         | "pending"
         | "preparing"
@@ -328,6 +1241,11 @@ export type Database = {
         | "delivered"
         | "cancelled"
       order_type: "dine_in" | "takeaway" | "delivery"
+      promo_type:
+        | "percentage"
+        | "fixed_amount"
+        | "free_delivery"
+        | "buy_x_get_y"
       user_type: "customer" | "staff"
     }
     CompositeTypes: {
@@ -456,7 +1374,21 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      allergen: [
+        "milk",
+        "eggs",
+        "fish",
+        "shellfish",
+        "tree_nuts",
+        "peanuts",
+        "wheat",
+        "soy",
+        "sesame",
+      ],
       app_role: ["admin", "staff", "customer"],
+      dietary_tag: ["vegetarian", "vegan", "gluten_free", "halal"],
+      gift_card_reason: ["issued", "redeemed", "refunded", "voided"],
+      loyalty_reason: ["earned", "redeemed", "refunded"],
       order_status: [
         "pending",
         "preparing",
@@ -466,6 +1398,12 @@ export const Constants = {
         "cancelled",
       ],
       order_type: ["dine_in", "takeaway", "delivery"],
+      promo_type: [
+        "percentage",
+        "fixed_amount",
+        "free_delivery",
+        "buy_x_get_y",
+      ],
       user_type: ["customer", "staff"],
     },
   },
@@ -0,0 +1,13 @@
+// Weekday indexes match Postgres extract(dow) and Date.getDay(): 0 = Sunday
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface BranchHours {
+  weekday: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+// Postgres returns time columns as "HH:MM:SS"; the UI only deals in minutes
+export function formatTime(time: string) {
+  return time.slice(0, 5);
+}
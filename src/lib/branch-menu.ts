@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Allergen, DietaryTag } from "@/lib/dietary";
+
+export interface BranchMenuItem {
+  id: string;
+  name: string;
+  price: number;
+  description: string | null;
+  photo_url: string | null;
+  category_id: string | null;
+  available: boolean;
+  dietary_tags: DietaryTag[];
+  allergens: Allergen[];
+}
+
+// Loads menu items as a given branch sells them. Mirrors is_available_at_branch()
+// and branch_price() in the database: globally available, not archived and not
+// switched off locally, at the branch's price override when it has one.
+export async function fetchBranchMenu(branchId: string, menuIds?: string[]): Promise<BranchMenuItem[]> {
+  let query = supabase
+    .from("menu")
+    .select("*, branch_menu(available, price)")
+    .eq("branch_menu.branch_id", branchId);
+
+  if (menuIds) {
+    query = query.in("id", menuIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map(({ branch_menu, archived_at, created_at, ...item }) => ({
+    ...item,
+    price: branch_menu[0]?.price ?? item.price,
+    available: item.available !== false && !archived_at && (branch_menu[0]?.available ?? true),
+  }));
+}
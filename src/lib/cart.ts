@@ -0,0 +1,256 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { fetchBranchMenu } from "@/lib/branch-menu";
+import { fetchBranchCombos } from "@/lib/combos";
+
+export interface SelectedModifier {
+  id: string;
+  name: string;
+  price_delta: number;
+}
+
+// The item picked for one slot of a combo
+export interface SelectedComboChoice {
+  slot_id: string;
+  slot_name: string;
+  menu_id: string;
+  name: string;
+  price_delta: number;
+}
+
+export interface CartItem {
+  // Distinguishes configurations of the same menu item (menu id + chosen option ids)
+  lineId: string;
+  // The combo id for combo lines, otherwise the menu item id
+  id: string;
+  name: string;
+  price: number;
+  description: string | null;
+  photo_url: string | null;
+  category_id: string | null;
+  available: boolean;
+  quantity: number;
+  modifiers: SelectedModifier[];
+  combo?: SelectedComboChoice[];
+  // Special instructions carried over by a reorder; checkout lets the customer edit them
+  notes?: string;
+}
+
+export function lineIdFor(menuId: string, modifiers: SelectedModifier[]) {
+  return [menuId, ...modifiers.map((m) => m.id).sort()].join(":");
+}
+
+export function comboChoiceFor(
+  slot: { id: string; name: string },
+  option: { menu_id: string; name: string; price_delta: number }
+): SelectedComboChoice {
+  return {
+    slot_id: slot.id,
+    slot_name: slot.name,
+    menu_id: option.menu_id,
+    name: option.name,
+    price_delta: option.price_delta,
+  };
+}
+
+// Choices are kept in slot order, so the same picks always give the same line
+export function comboLineIdFor(comboId: string, choices: SelectedComboChoice[]) {
+  return ["combo", comboId, ...choices.map((c) => c.menu_id)].join(":");
+}
+
+// Price of one unit of a cart line: the branch price plus every modifier's delta,
+// or the combo price plus the upcharge for each choice
+export function unitPrice(item: CartItem) {
+  return (
+    item.price +
+    item.modifiers.reduce((sum, m) => sum + m.price_delta, 0) +
+    (item.combo ?? []).reduce((sum, c) => sum + c.price_delta, 0)
+  );
+}
+
+export function cartSubtotal(cart: CartItem[]) {
+  return cart.reduce((sum, item) => sum + unitPrice(item) * item.quantity, 0);
+}
+
+export interface SavedCart {
+  branchId: string;
+  items: CartItem[];
+  updatedAt: string;
+}
+
+export interface CartChange {
+  name: string;
+  reason: "unavailable" | "repriced";
+}
+
+// Each branch keeps its own cart, since that is where its prices come from
+const storagePrefix = (userId: string) => `cart:${userId}:`;
+const storageKey = (userId: string, branchId: string) => `${storagePrefix(userId)}${branchId}`;
+
+function readLocalCart(key: string): SavedCart | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function latestLocalCart(userId: string): SavedCart | null {
+  let latest: SavedCart | null = null;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(storagePrefix(userId))) continue;
+
+    const saved = readLocalCart(key);
+    if (saved && saved.items.length > 0 && (!latest || new Date(saved.updatedAt) > new Date(latest.updatedAt))) {
+      latest = saved;
+    }
+  }
+  return latest;
+}
+
+// Returns the user's cart for a branch, or their most recently touched cart when no
+// branch is given, whether it was last saved on this device or another
+export async function loadCart(userId: string, branchId?: string): Promise<SavedCart | null> {
+  const local = branchId ? readLocalCart(storageKey(userId, branchId)) : latestLocalCart(userId);
+
+  let query = supabase
+    .from("carts")
+    .select("branch_id, items, updated_at")
+    .eq("user_id", userId);
+
+  if (branchId) {
+    query = query.eq("branch_id", branchId);
+  }
+
+  const { data, error } = await query
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching saved cart:", error);
+    return local;
+  }
+
+  const remote: SavedCart | null = data
+    ? { branchId: data.branch_id, items: data.items as unknown as CartItem[], updatedAt: data.updated_at }
+    : null;
+
+  if (!local || (remote && new Date(remote.updatedAt) > new Date(local.updatedAt))) {
+    return remote;
+  }
+  return local;
+}
+
+export function saveLocalCart(userId: string, branchId: string, items: CartItem[]): SavedCart {
+  const saved = { branchId, items, updatedAt: new Date().toISOString() };
+  localStorage.setItem(storageKey(userId, branchId), JSON.stringify(saved));
+  return saved;
+}
+
+// Only touches the row for the cart's branch; carts at other branches are kept
+export async function syncCart(userId: string, cart: SavedCart) {
+  if (cart.items.length === 0) {
+    const { error } = await supabase.from("carts").delete().eq("user_id", userId).eq("branch_id", cart.branchId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from("carts")
+    .upsert(
+      {
+        user_id: userId,
+        branch_id: cart.branchId,
+        items: cart.items as unknown as Json,
+        updated_at: cart.updatedAt,
+      },
+      { onConflict: "user_id,branch_id" }
+    );
+  if (error) throw error;
+}
+
+export async function saveCart(userId: string, branchId: string, items: CartItem[]) {
+  await syncCart(userId, saveLocalCart(userId, branchId, items));
+}
+
+export async function clearCart(userId: string, branchId: string) {
+  localStorage.removeItem(storageKey(userId, branchId));
+  const { error } = await supabase.from("carts").delete().eq("user_id", userId).eq("branch_id", branchId);
+  if (error) throw error;
+}
+
+// Checks saved lines against what the branch sells now: lines whose item, modifier
+// options or combo choices are gone are dropped, and lines whose price moved are
+// updated. Both are reported so the customer is not surprised at checkout.
+export async function revalidateCart(items: CartItem[], branchId: string) {
+  const changes: CartChange[] = [];
+  if (items.length === 0) return { items, changes };
+
+  const menuIds = items.filter((item) => !item.combo).map((item) => item.id);
+  const comboIds = items.filter((item) => item.combo).map((item) => item.id);
+  const optionIds = items.flatMap((item) => item.modifiers.map((m) => m.id));
+  const [branchMenu, branchCombos, optionsRes] = await Promise.all([
+    menuIds.length > 0 ? fetchBranchMenu(branchId, [...new Set(menuIds)]) : Promise.resolve([]),
+    comboIds.length > 0 ? fetchBranchCombos(branchId, [...new Set(comboIds)]) : Promise.resolve([]),
+    optionIds.length > 0
+      ? supabase.from("modifier_options").select("id, name, price_delta").in("id", optionIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (optionsRes.error) throw optionsRes.error;
+
+  const options = optionsRes.data || [];
+  const fresh: CartItem[] = [];
+
+  for (const item of items) {
+    if (item.combo) {
+      const combo = branchCombos.find((c) => c.id === item.id);
+      const choices = combo?.slots.map((slot) => {
+        const choice = item.combo.find((c) => c.slot_id === slot.id);
+        const option = slot.options.find((o) => o.menu_id === choice?.menu_id);
+        return option && comboChoiceFor(slot, option);
+      });
+
+      if (!combo || choices.some((c) => !c)) {
+        changes.push({ name: item.name, reason: "unavailable" });
+        continue;
+      }
+
+      const updated = {
+        ...item,
+        lineId: comboLineIdFor(combo.id, choices),
+        name: combo.name,
+        price: combo.price,
+        combo: choices,
+      };
+      if (unitPrice(updated) !== unitPrice(item)) {
+        changes.push({ name: item.name, reason: "repriced" });
+      }
+      fresh.push(updated);
+      continue;
+    }
+
+    const menuItem = branchMenu.find((m) => m.id === item.id && m.available);
+    const modifiers = item.modifiers.map((m) => options.find((o) => o.id === m.id));
+
+    if (!menuItem || modifiers.some((m) => !m)) {
+      changes.push({ name: item.name, reason: "unavailable" });
+      continue;
+    }
+
+    const updated = {
+      ...item,
+      name: menuItem.name,
+      price: menuItem.price,
+      modifiers: modifiers.map((m) => ({ id: m.id, name: m.name, price_delta: m.price_delta })),
+    };
+    if (unitPrice(updated) !== unitPrice(item)) {
+      changes.push({ name: item.name, reason: "repriced" });
+    }
+    fresh.push(updated);
+  }
+
+  return { items: fresh, changes };
+}
@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fetchBranchMenu } from "@/lib/branch-menu";
+import { Allergen, DietaryTag } from "@/lib/dietary";
+
+export interface ComboOption {
+  menu_id: string;
+  name: string;
+  price_delta: number;
+  dietary_tags: DietaryTag[];
+  allergens: Allergen[];
+}
+
+export interface ComboSlot {
+  id: string;
+  name: string;
+  options: ComboOption[];
+}
+
+export interface BranchCombo {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  photo_url: string | null;
+  slots: ComboSlot[];
+}
+
+// Loads combos as a given branch sells them. Options the branch isn't selling are
+// left out, and a combo with a slot that has nothing left to choose is dropped,
+// mirroring the checks add_combo_line() makes in the database.
+export async function fetchBranchCombos(branchId: string, comboIds?: string[]): Promise<BranchCombo[]> {
+  let query = supabase
+    .from("combos")
+    .select("id, name, description, price, photo_url, combo_slots(id, name, sort_order, combo_slot_options(menu_id, price_delta, sort_order))")
+    .eq("available", true)
+    .is("archived_at", null)
+    .order("name")
+    .order("sort_order", { referencedTable: "combo_slots" })
+    .order("sort_order", { referencedTable: "combo_slots.combo_slot_options" });
+
+  if (comboIds) {
+    query = query.in("id", comboIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const menuIds = (data || []).flatMap((combo) =>
+    combo.combo_slots.flatMap((slot) => slot.combo_slot_options.map((option) => option.menu_id))
+  );
+  const branchMenu = menuIds.length > 0 ? await fetchBranchMenu(branchId, [...new Set(menuIds)]) : [];
+
+  return (data || [])
+    .map(({ combo_slots, ...combo }) => ({
+      ...combo,
+      slots: combo_slots.map((slot) => ({
+        id: slot.id,
+        name: slot.name,
+        options: slot.combo_slot_options.flatMap((option) => {
+          const menuItem = branchMenu.find((m) => m.id === option.menu_id && m.available);
+          return menuItem
+            ? [
+                {
+                  menu_id: option.menu_id,
+                  name: menuItem.name,
+                  price_delta: option.price_delta,
+                  dietary_tags: menuItem.dietary_tags,
+                  allergens: menuItem.allergens,
+                },
+              ]
+            : [];
+        }),
+      })),
+    }))
+    .filter((combo) => combo.slots.length > 0 && combo.slots.every((slot) => slot.options.length > 0));
+}
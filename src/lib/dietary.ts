@@ -0,0 +1,40 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type DietaryTag = Database["public"]["Enums"]["dietary_tag"];
+export type Allergen = Database["public"]["Enums"]["allergen"];
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  gluten_free: "Gluten-free",
+  halal: "Halal",
+};
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  milk: "Milk",
+  eggs: "Eggs",
+  fish: "Fish",
+  shellfish: "Shellfish",
+  tree_nuts: "Tree nuts",
+  peanuts: "Peanuts",
+  wheat: "Wheat",
+  soy: "Soy",
+  sesame: "Sesame",
+};
+
+export interface DietaryFilter {
+  tags: DietaryTag[];
+  // Allergens the customer wants to avoid
+  excluded: Allergen[];
+}
+
+// An item matches when it carries every chosen tag and contains none of the excluded allergens
+export function matchesDietaryFilter(
+  item: { dietary_tags: DietaryTag[]; allergens: Allergen[] },
+  filter: DietaryFilter
+) {
+  return (
+    filter.tags.every((tag) => item.dietary_tags.includes(tag)) &&
+    !filter.excluded.some((allergen) => item.allergens.includes(allergen))
+  );
+}
@@ -0,0 +1,33 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type LoyaltyTier = Database["public"]["Tables"]["loyalty_tiers"]["Row"];
+export type LoyaltyTransaction = Database["public"]["Tables"]["loyalty_transactions"]["Row"];
+
+// Mirrors refresh_order_totals() in the database
+export const POINTS_PER_DOLLAR = 100;
+
+export function pointsValue(points: number) {
+  return points / POINTS_PER_DOLLAR;
+}
+
+export function pointsBalance(transactions: Pick<LoyaltyTransaction, "points">[]) {
+  return transactions.reduce((sum, t) => sum + t.points, 0);
+}
+
+// Tiers are based on points earned over time, so spending points never drops a tier
+export function lifetimePoints(transactions: Pick<LoyaltyTransaction, "points" | "reason">[]) {
+  return transactions.filter((t) => t.reason === "earned").reduce((sum, t) => sum + t.points, 0);
+}
+
+// Mirrors loyalty_tier() in the database
+export function tierFor(lifetime: number, tiers: LoyaltyTier[]) {
+  return [...tiers]
+    .sort((a, b) => b.min_points - a.min_points)
+    .find((tier) => tier.min_points <= lifetime) ?? null;
+}
+
+export function nextTier(lifetime: number, tiers: LoyaltyTier[]) {
+  return [...tiers]
+    .sort((a, b) => a.min_points - b.min_points)
+    .find((tier) => tier.min_points > lifetime) ?? null;
+}
@@ -0,0 +1,39 @@
+export function statusColor(status: string) {
+  const colors: Record<string, string> = {
+    pending: "bg-yellow-500",
+    preparing: "bg-blue-500",
+    ready: "bg-green-500",
+    in_delivery: "bg-purple-500",
+    delivered: "bg-success",
+    cancelled: "bg-destructive",
+  };
+  return colors[status] || "bg-muted";
+}
+
+export function statusLabel(status: string) {
+  return status.replace("_", " ").toUpperCase();
+}
+
+// Mirrors is_valid_status_transition() in the database, which has the final say
+export function nextStatuses(orderType: string, status: string): string[] {
+  const handOver = orderType === "delivery" ? "in_delivery" : "delivered";
+  const transitions: Record<string, string[]> = {
+    pending: ["preparing", "cancelled"],
+    preparing: ["ready", "cancelled"],
+    ready: [handOver, "cancelled"],
+    in_delivery: orderType === "delivery" ? ["delivered"] : [],
+  };
+  return transitions[status] || [];
+}
+
+// Button wording for moving an order into a status
+export function statusActionLabel(orderType: string, status: string) {
+  const labels: Record<string, string> = {
+    preparing: "Start preparing",
+    ready: "Mark ready",
+    in_delivery: "Out for delivery",
+    delivered: orderType === "dine_in" ? "Served" : orderType === "takeaway" ? "Picked up" : "Delivered",
+    cancelled: "Cancel order",
+  };
+  return labels[status] || status;
+}
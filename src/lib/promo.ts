@@ -0,0 +1,55 @@
+import { Database } from "@/integrations/supabase/types";
+import { CartItem, cartSubtotal, unitPrice } from "@/lib/cart";
+
+export type PromoCode = Database["public"]["Tables"]["promo_codes"]["Row"];
+export type PromoType = Database["public"]["Enums"]["promo_type"];
+
+export const PROMO_TYPE_LABELS: Record<PromoType, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Amount off",
+  free_delivery: "Free delivery",
+  buy_x_get_y: "Buy X get Y",
+};
+
+export interface PromoDiscount {
+  // Taken off the food, so it also lowers the tax
+  items: number;
+  delivery: number;
+}
+
+// Mirrors refresh_order_totals() in the database, which has the final say
+export function promoDiscount(promo: PromoCode, cart: CartItem[], deliveryFee: number): PromoDiscount {
+  const subtotal = cartSubtotal(cart);
+  if (subtotal < promo.min_subtotal) return { items: 0, delivery: 0 };
+
+  switch (promo.promo_type) {
+    case "percentage":
+      return { items: Math.round(subtotal * promo.value) / 100, delivery: 0 };
+    case "fixed_amount":
+      return { items: Math.min(promo.value, subtotal), delivery: 0 };
+    case "free_delivery":
+      return { items: 0, delivery: deliveryFee };
+    case "buy_x_get_y": {
+      const lines = cart.filter((item) => item.id === promo.buy_menu_id);
+      if (lines.length === 0) return { items: 0, delivery: 0 };
+      const quantity = lines.reduce((sum, item) => sum + item.quantity, 0);
+      const sets = Math.floor(quantity / (promo.buy_quantity + promo.get_quantity));
+      const cheapest = Math.min(...lines.map(unitPrice));
+      return { items: sets * promo.get_quantity * cheapest, delivery: 0 };
+    }
+  }
+}
+
+// Short description of what a code gives, e.g. "15% off" or "Buy 2 get 1 free"
+export function promoSummary(promo: PromoCode, itemName?: string) {
+  switch (promo.promo_type) {
+    case "percentage":
+      return `${promo.value}% off`;
+    case "fixed_amount":
+      return `$${promo.value.toFixed(2)} off`;
+    case "free_delivery":
+      return "Free delivery";
+    case "buy_x_get_y":
+      return `Buy ${promo.buy_quantity} get ${promo.get_quantity} free${itemName ? ` (${itemName})` : ""}`;
+  }
+}
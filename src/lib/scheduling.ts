@@ -0,0 +1,95 @@
+import { addDays, addMinutes, isBefore } from "date-fns";
+import { BranchHours } from "@/lib/branch-hours";
+
+// Kitchens start on a scheduled order this long before it is due, which is also
+// the shortest notice a customer can schedule with
+export const PREP_WINDOW_MINUTES = 30;
+export const SLOT_MINUTES = 15;
+// Matches the limit place_order() enforces
+export const MAX_DAYS_AHEAD = 7;
+
+// Wall-clock parts of an instant in the given time zone
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part("year"),
+    month: part("month") - 1,
+    day: part("day"),
+    hours: part("hour"),
+    minutes: part("minute"),
+  };
+};
+
+// How many minutes the zone is ahead of UTC at the given instant
+const zoneOffset = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  const wholeMinute = date.getTime() - (date.getTime() % 60000);
+  return (Date.UTC(p.year, p.month, p.day, p.hours, p.minutes) - wholeMinute) / 60000;
+};
+
+// The instant a branch's wall-clock time falls on, for a calendar day from the day picker
+const atTime = (day: Date, time: string, timeZone: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+  const guess = wallClock - zoneOffset(new Date(wallClock), timeZone) * 60000;
+  // Take the offset again at the guess in case a daylight saving change falls in between
+  return new Date(wallClock - zoneOffset(new Date(guess), timeZone) * 60000);
+};
+
+// The branch's current calendar day, as a local date the day picker can compare against
+export function branchToday(timeZone: string, now = new Date()) {
+  const p = zonedParts(now, timeZone);
+  return new Date(p.year, p.month, p.day);
+}
+
+// Slots a branch can take orders for on the given day, skipping any inside the prep window.
+// Opening hours are read in the branch's time zone, as place_order() does.
+export function timeSlots(day: Date, hours: BranchHours[], timeZone: string, now = new Date()): Date[] {
+  const open = hours.find((h) => h.weekday === day.getDay());
+  if (!open) return [];
+
+  const earliest = addMinutes(now, PREP_WINDOW_MINUTES);
+  const closes = atTime(day, open.closes_at, timeZone);
+  const slots: Date[] = [];
+
+  for (let slot = atTime(day, open.opens_at, timeZone); isBefore(slot, closes); slot = addMinutes(slot, SLOT_MINUTES)) {
+    if (!isBefore(slot, earliest)) {
+      slots.push(slot);
+    }
+  }
+  return slots;
+}
+
+export function isSchedulableDay(day: Date, hours: BranchHours[], timeZone: string, now = new Date()) {
+  const today = branchToday(timeZone, now);
+  return (
+    !isBefore(day, today) &&
+    isBefore(day, addDays(today, MAX_DAYS_AHEAD)) &&
+    timeSlots(day, hours, timeZone, now).length > 0
+  );
+}
+
+// A slot as the branch's clock shows it, with the weekday when it may not be today
+export function formatSlot(slot: Date, timeZone: string, withWeekday = false) {
+  return slot.toLocaleString([], {
+    timeZone,
+    weekday: withWeekday ? "short" : undefined,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// When staff should start on a scheduled order
+export function prepStartsAt(scheduledFor: string) {
+  return addMinutes(new Date(scheduledFor), -PREP_WINDOW_MINUTES);
+}
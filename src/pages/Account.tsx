@@ -0,0 +1,258 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Award, Package } from "lucide-react";
+import { format } from "date-fns";
+import { ALLERGEN_LABELS, Allergen } from "@/lib/dietary";
+import {
+  LoyaltyTier,
+  LoyaltyTransaction,
+  lifetimePoints,
+  nextTier,
+  pointsBalance,
+  pointsValue,
+  tierFor,
+} from "@/lib/loyalty";
+
+const REASON_LABELS: Record<LoyaltyTransaction["reason"], string> = {
+  earned: "Earned",
+  redeemed: "Redeemed",
+  refunded: "Returned",
+};
+
+const Account = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [userId, setUserId] = useState("");
+  const [name, setName] = useState("");
+  const [allergens, setAllergens] = useState<Allergen[]>([]);
+  const [savingAllergens, setSavingAllergens] = useState(false);
+  const [tiers, setTiers] = useState<LoyaltyTier[]>([]);
+  const [transactions, setTransactions] = useState<LoyaltyTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkAuthAndFetch();
+  }, []);
+
+  const checkAuthAndFetch = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setUserId(session.user.id);
+    await fetchAccount(session.user.id);
+  };
+
+  const fetchAccount = async (userId: string) => {
+    try {
+      const [profileRes, tiersRes, transactionsRes] = await Promise.all([
+        supabase.from("profiles").select("name, allergens").eq("id", userId).maybeSingle(),
+        supabase.from("loyalty_tiers").select("*").order("min_points"),
+        supabase
+          .from("loyalty_transactions")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (profileRes.error) throw profileRes.error;
+      if (tiersRes.error) throw tiersRes.error;
+      if (transactionsRes.error) throw transactionsRes.error;
+      setName(profileRes.data?.name ?? "");
+      setAllergens(profileRes.data?.allergens ?? []);
+      setTiers(tiersRes.data || []);
+      setTransactions(transactionsRes.data || []);
+    } catch (error) {
+      console.error("Error fetching account:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveAllergens = async () => {
+    setSavingAllergens(true);
+
+    try {
+      const { error } = await supabase.from("profiles").update({ allergens }).eq("id", userId);
+      if (error) throw error;
+
+      toast({
+        title: "Allergies saved",
+        description: "We'll warn you at checkout when your cart contains any of them.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't save allergies",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSavingAllergens(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-xl">Loading account...</div>
+      </div>
+    );
+  }
+
+  const balance = pointsBalance(transactions);
+  const lifetime = lifetimePoints(transactions);
+  const tier = tierFor(lifetime, tiers);
+  const next = nextTier(lifetime, tiers);
+  const progress = next
+    ? ((lifetime - (tier?.min_points ?? 0)) / (next.min_points - (tier?.min_points ?? 0))) * 100
+    : 100;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-gradient-warm text-white shadow-soft">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">My Account</h1>
+          <div className="flex items-center gap-4">
+            <Button variant="secondary" onClick={() => navigate("/orders")}>
+              <Package className="mr-2 h-4 w-4" />
+              My Orders
+            </Button>
+            <Button variant="secondary" onClick={() => navigate("/menu")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Menu
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <div className="grid md:grid-cols-2 gap-8">
+          <Card>
+            <CardHeader>
+              <CardDescription>{name ? `${name}'s points` : "Your points"}</CardDescription>
+              <CardTitle className="text-4xl text-primary">{balance.toLocaleString()}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">
+                Worth ${pointsValue(balance).toFixed(2)} off your next order. Use them at checkout.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardDescription>Your tier</CardDescription>
+              <CardTitle className="flex items-center gap-2">
+                <Award className="h-6 w-6 text-primary" />
+                {tier?.name ?? "Member"}
+                {tier && <Badge variant="secondary">{tier.earn_rate}× points</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Progress value={progress} />
+              <p className="text-sm text-muted-foreground">
+                {next
+                  ? `${(next.min_points - lifetime).toLocaleString()} more points to ${next.name} (${next.earn_rate}× points)`
+                  : "You're in our top tier"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Allergies</CardTitle>
+            <CardDescription>
+              Items containing these are highlighted on the menu, and checkout warns you before you order them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map((allergen) => (
+                <div key={allergen} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`allergen-${allergen}`}
+                    checked={allergens.includes(allergen)}
+                    onCheckedChange={(checked) =>
+                      setAllergens((prev) =>
+                        checked ? [...prev, allergen] : prev.filter((a) => a !== allergen)
+                      )
+                    }
+                  />
+                  <Label htmlFor={`allergen-${allergen}`}>{ALLERGEN_LABELS[allergen]}</Label>
+                </div>
+              ))}
+            </div>
+            <Button onClick={saveAllergens} disabled={savingAllergens}>
+              {savingAllergens ? "Saving..." : "Save Allergies"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Points History</CardTitle>
+            <CardDescription>
+              Delivered orders earn {tier?.earn_rate ?? 1} point{tier?.earn_rate === 1 ? "" : "s"} per dollar, excluding tips.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {transactions.length === 0 ? (
+              <p className="text-muted-foreground">No points yet. Your first delivered order will earn some.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Activity</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead className="text-right">Points</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{format(new Date(transaction.created_at), "PP")}</TableCell>
+                      <TableCell>{REASON_LABELS[transaction.reason]}</TableCell>
+                      <TableCell>
+                        {transaction.order_id && (
+                          <Button
+                            variant="link"
+                            className="h-auto p-0"
+                            onClick={() => navigate(`/orders/${transaction.order_id}`)}
+                          >
+                            #{transaction.order_id.slice(0, 8)}
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-semibold ${transaction.points > 0 ? "text-success" : ""}`}
+                      >
+                        {transaction.points > 0 ? "+" : ""}
+                        {transaction.points.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Account;
@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { useNavigate, Outlet } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AdminSidebar } from "@/components/admin/AdminSidebar";
+import { LogOut } from "lucide-react";
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkAdminAuth();
+  }, []);
+
+  const checkAdminAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    // Use secure RPC function to check admin role
+    const { data: hasAdminRole } = await supabase
+      .rpc('has_role', { _user_id: session.user.id, _role: 'admin' });
+
+    if (!hasAdminRole) {
+      navigate("/menu");
+      return;
+    }
+
+    setLoading(false);
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    navigate("/auth");
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-xl">Loading admin console...</div>
+      </div>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AdminSidebar />
+      <SidebarInset>
+        <header className="bg-gradient-warm text-white shadow-soft">
+          <div className="px-4 py-4 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <SidebarTrigger className="text-white hover:bg-white/20 hover:text-white" />
+              <h1 className="text-2xl font-bold">Admin Console</h1>
+            </div>
+            <Button variant="secondary" onClick={handleSignOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        </header>
+
+        <div className="px-4 py-8">
+          <Outlet />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Admin;
@@ -80,11 +80,15 @@ const Auth = () => {
           description: "You've successfully signed in.",
         });
 
-        // Check if user has staff role using secure RPC function
-        const { data: hasStaffRole } = await supabase
-          .rpc('has_role', { _user_id: session?.user.id, _role: 'staff' });
-
-        if (hasStaffRole) {
+        // Check if user has admin or staff role using secure RPC function
+        const [{ data: hasAdminRole }, { data: hasStaffRole }] = await Promise.all([
+          supabase.rpc('has_role', { _user_id: session?.user.id, _role: 'admin' }),
+          supabase.rpc('has_role', { _user_id: session?.user.id, _role: 'staff' }),
+        ]);
+
+        if (hasAdminRole) {
+          navigate("/admin");
+        } else if (hasStaffRole) {
           navigate("/staff");
         } else {
           navigate("/menu");
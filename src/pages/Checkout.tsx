@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,8 +7,19 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft } from "lucide-react";
+import { AlertTriangle, ArrowLeft, CalendarIcon, Gift, Tag, X } from "lucide-react";
+import { BranchHours } from "@/lib/branch-hours";
+import { CartItem, cartSubtotal, clearCart, loadCart, revalidateCart, saveCart, unitPrice } from "@/lib/cart";
+import { ALLERGEN_LABELS, Allergen } from "@/lib/dietary";
+import { POINTS_PER_DOLLAR, pointsBalance, pointsValue } from "@/lib/loyalty";
+import { PromoCode, promoDiscount, promoSummary } from "@/lib/promo";
+import { formatSlot, isSchedulableDay, timeSlots } from "@/lib/scheduling";
+import { format } from "date-fns";
 import { z } from "zod";
 
 // Validation schema for checkout
@@ -16,29 +27,237 @@ const checkoutSchema = z.object({
   orderType: z.enum(["dine_in", "takeaway", "delivery"]),
   deliveryAddress: z.string().trim().max(500, "Address is too long").optional(),
   notes: z.string().trim().max(1000, "Notes are too long").optional(),
+  lineNotes: z.record(z.string().trim().max(200, "Item instructions are too long")),
+  tip: z.number({ invalid_type_error: "Tip must be a number" }).min(0, "Tip cannot be negative").max(1000, "Tip is too large"),
+  timing: z.enum(["asap", "scheduled"]),
+  scheduledFor: z.string().optional(),
 }).refine(
   (data) => data.orderType !== "delivery" || (data.deliveryAddress && data.deliveryAddress.length > 0),
   { message: "Delivery address is required for delivery orders", path: ["deliveryAddress"] }
+).refine(
+  (data) => data.timing === "asap" || !!data.scheduledFor,
+  { message: "Choose a time for your order", path: ["scheduledFor"] }
 );
 
+const TIP_PRESETS = [10, 15, 20];
+
 const Checkout = () => {
   const navigate = useNavigate();
-  const location = useLocation();
   const { toast } = useToast();
-  const { cart, branchId } = location.state || { cart: [], branchId: "" };
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [branchId, setBranchId] = useState("");
+  const [cartLoading, setCartLoading] = useState(true);
 
   const [orderType, setOrderType] = useState<"dine_in" | "takeaway" | "delivery">("dine_in");
   const [deliveryAddress, setDeliveryAddress] = useState("");
   const [notes, setNotes] = useState("");
+  // Per-line special instructions keyed by cart line id
+  const [lineNotes, setLineNotes] = useState<Record<string, string>>({});
+  const [timing, setTiming] = useState<"asap" | "scheduled">("asap");
+  const [scheduledDay, setScheduledDay] = useState<Date | undefined>();
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [branchHours, setBranchHours] = useState<BranchHours[]>([]);
+  const [branchTimeZone, setBranchTimeZone] = useState("UTC");
+  const [tipOption, setTipOption] = useState<string>("none");
+  const [customTip, setCustomTip] = useState("");
+  const [promoInput, setPromoInput] = useState("");
+  const [promo, setPromo] = useState<PromoCode | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [points, setPoints] = useState(0);
+  const [pointsInput, setPointsInput] = useState("");
+  const [giftCardInput, setGiftCardInput] = useState("");
+  const [giftCard, setGiftCard] = useState<{ code: string; balance: number } | null>(null);
+  const [applyingGiftCard, setApplyingGiftCard] = useState(false);
+  // Cart lines containing allergens saved on the customer's profile
+  const [allergenWarnings, setAllergenWarnings] = useState<Array<{ name: string; allergens: Allergen[] }>>([]);
+  // One key per checkout attempt; retries of the same attempt return the same order
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const subtotal = cart.reduce((sum: number, item: any) => sum + item.price * item.quantity, 0);
-  const tax = subtotal * 0.1;
+  // Shown for the summary only; place_order charges whatever the database calculates
+  const subtotal = cartSubtotal(cart);
   const deliveryFee = orderType === "delivery" ? 5.99 : 0;
-  const total = subtotal + tax + deliveryFee;
+  const discount = promo ? promoDiscount(promo, cart, deliveryFee) : { items: 0, delivery: 0 };
+  // Points can cover the food after other discounts, but not tax, fees or the tip
+  const maxPoints = Math.min(points, Math.floor((subtotal - discount.items) * POINTS_PER_DOLLAR));
+  const redeemPoints = Math.max(0, Math.min(Math.floor(Number(pointsInput) || 0), maxPoints));
+  const pointsDiscount = pointsValue(redeemPoints);
+  const tax = Math.round((subtotal - discount.items - pointsDiscount) * 10) / 100;
+  // Percentage tips are calculated on the subtotal, before tax and fees
+  const tip = tipOption === "custom"
+    ? Number(customTip || 0)
+    : tipOption === "none" ? 0 : Math.round(subtotal * Number(tipOption)) / 100;
+  const total = subtotal - discount.items - pointsDiscount + tax + deliveryFee - discount.delivery + tip;
+  // A gift card pays what it can; the rest is due on collection or delivery
+  const giftCardAmount = giftCard ? Math.min(giftCard.balance, total) : 0;
+  const amountDue = total - giftCardAmount;
+
+  useEffect(() => {
+    restoreCart();
+  }, []);
+
+  // Changing the order makes it a new attempt
+  useEffect(() => {
+    setIdempotencyKey(crypto.randomUUID());
+  }, [cart, orderType, deliveryAddress, notes, lineNotes, tip, timing, scheduledFor, promo, redeemPoints, giftCard]);
+
+  // Codes can be limited to some order types, so check again when it changes
+  useEffect(() => {
+    if (promo) {
+      applyPromo(promo.code);
+    }
+  }, [orderType]);
+
+  const restoreCart = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      fetchPoints(session.user.id);
+
+      const saved = await loadCart(session.user.id);
+      if (!saved || saved.items.length === 0) return;
+
+      const { items, changes } = await revalidateCart(saved.items, saved.branchId);
+      setCart(items);
+      setLineNotes(Object.fromEntries(items.filter((item) => item.notes).map((item) => [item.lineId, item.notes])));
+      setBranchId(saved.branchId);
+      fetchBranchHours(saved.branchId);
+      checkAllergens(session.user.id, items);
+      await saveCart(session.user.id, saved.branchId, items);
+
+      if (changes.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Your cart has changed",
+          description: changes
+            .map((c) => `${c.name} ${c.reason === "unavailable" ? "was removed" : "has a new price"}`)
+            .join(", "),
+        });
+      }
+    } catch (error) {
+      console.error("Error restoring cart:", error);
+    } finally {
+      setCartLoading(false);
+    }
+  };
+
+  const checkAllergens = async (userId: string, items: CartItem[]) => {
+    try {
+      // A combo contains whatever its chosen items contain
+      const menuIds = items.flatMap((item) => (item.combo ? item.combo.map((c) => c.menu_id) : [item.id]));
+      const [profileRes, menuRes] = await Promise.all([
+        supabase.from("profiles").select("allergens").eq("id", userId).maybeSingle(),
+        supabase.from("menu").select("id, allergens").in("id", menuIds),
+      ]);
+
+      if (profileRes.error) throw profileRes.error;
+      if (menuRes.error) throw menuRes.error;
+
+      const saved = profileRes.data?.allergens ?? [];
+      const allergensIn = (menuId: string) =>
+        (menuRes.data.find((m) => m.id === menuId)?.allergens ?? []).filter((a) => saved.includes(a));
+
+      setAllergenWarnings(
+        items.flatMap((item) => {
+          const found = item.combo
+            ? [...new Set(item.combo.flatMap((c) => allergensIn(c.menu_id)))]
+            : allergensIn(item.id);
+          return found.length > 0 ? [{ name: item.name, allergens: found }] : [];
+        })
+      );
+    } catch (error) {
+      console.error("Error checking allergens:", error);
+    }
+  };
+
+  const fetchPoints = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("loyalty_transactions")
+        .select("points")
+        .eq("user_id", userId);
+
+      if (error) throw error;
+      setPoints(pointsBalance(data || []));
+    } catch (error) {
+      console.error("Error fetching points:", error);
+    }
+  };
+
+  const fetchBranchHours = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("branches")
+        .select("timezone, branch_hours(weekday, opens_at, closes_at)")
+        .eq("id", id)
+        .single();
+
+      if (error) throw error;
+      setBranchHours(data.branch_hours);
+      setBranchTimeZone(data.timezone);
+    } catch (error) {
+      console.error("Error fetching branch hours:", error);
+    }
+  };
+
+  const applyPromo = async (code: string) => {
+    if (!code.trim()) return;
+    setApplyingPromo(true);
+
+    try {
+      const { data, error } = await supabase.rpc("check_promo_code", {
+        _code: code,
+        _branch_id: branchId,
+        _order_type: orderType,
+      });
+
+      if (error) throw error;
+      setPromo(data);
+      setPromoInput("");
+    } catch (error) {
+      setPromo(null);
+      toast({
+        variant: "destructive",
+        title: "Promo code not applied",
+        description: (error as Error).message,
+      });
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const applyGiftCard = async () => {
+    const code = giftCardInput.trim().toUpperCase();
+    if (!code) return;
+    setApplyingGiftCard(true);
+
+    try {
+      const { data, error } = await supabase.rpc("check_gift_card", { _code: code });
+
+      if (error) throw error;
+      if (data <= 0) throw new Error(`Gift card ${code} has no balance left`);
+      setGiftCard({ code, balance: data });
+      setGiftCardInput("");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Gift card not applied",
+        description: (error as Error).message,
+      });
+    } finally {
+      setApplyingGiftCard(false);
+    }
+  };
+
+  const slots = scheduledDay ? timeSlots(scheduledDay, branchHours, branchTimeZone) : [];
 
   const handlePlaceOrder = async () => {
+    if (loading) return;
     setErrors({});
     
     // Validate checkout data
@@ -46,6 +265,10 @@ const Checkout = () => {
       orderType,
       deliveryAddress: deliveryAddress || undefined,
       notes: notes || undefined,
+      lineNotes,
+      tip,
+      timing,
+      scheduledFor: scheduledFor || undefined,
     });
 
     if (!result.success) {
@@ -56,7 +279,7 @@ const Checkout = () => {
         }
       });
       setErrors(fieldErrors);
-      toast({ variant: "destructive", title: fieldErrors.deliveryAddress || "Validation error" });
+      toast({ variant: "destructive", title: fieldErrors.deliveryAddress || fieldErrors.scheduledFor || fieldErrors.tip || "Validation error" });
       return;
     }
     setLoading(true);
@@ -68,36 +291,50 @@ const Checkout = () => {
         return;
       }
 
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          user_id: session.user.id,
-          branch_id: branchId,
-          order_type: orderType,
-          status: "pending",
-          tax: tax,
-          delivery_fee: deliveryFee,
-          total: total,
-          delivery_address: orderType === "delivery" ? deliveryAddress : null,
-          notes: notes || null,
-        })
-        .select()
-        .single();
+      const { changes } = await revalidateCart(cart, branchId);
+      const unavailable = changes.filter((change) => change.reason === "unavailable");
 
-      if (orderError) throw orderError;
+      if (unavailable.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some items are no longer available",
+          description: unavailable.map((item) => item.name).join(", "),
+        });
+        return;
+      }
 
-      const orderItems = cart.map((item: any) => ({
-        order_id: order.id,
-        menu_id: item.id,
-        quantity: item.quantity,
-        price_each: item.price,
-      }));
+      // Prices, tax, fees and the total are worked out by the database
+      const { error: orderError } = await supabase.rpc("place_order", {
+        _branch_id: branchId,
+        _order_type: orderType,
+        _items: cart.map((item) =>
+          item.combo
+            ? {
+                combo_id: item.id,
+                quantity: item.quantity,
+                notes: lineNotes[item.lineId]?.trim() || null,
+                choices: item.combo.map((choice) => ({ slot_id: choice.slot_id, menu_id: choice.menu_id })),
+              }
+            : {
+                menu_id: item.id,
+                quantity: item.quantity,
+                notes: lineNotes[item.lineId]?.trim() || null,
+                modifier_option_ids: item.modifiers.map((modifier) => modifier.id),
+              }
+        ),
+        _delivery_address: orderType === "delivery" ? deliveryAddress : null,
+        _notes: notes || null,
+        _tip: tip,
+        _idempotency_key: idempotencyKey,
+        _scheduled_for: timing === "scheduled" ? scheduledFor : null,
+        _promo_code: promo?.code ?? null,
+        _points: redeemPoints,
+        _gift_card_code: giftCard?.code ?? null,
+      });
 
-      const { error: itemsError } = await supabase
-        .from("ordered_items")
-        .insert(orderItems);
+      if (orderError) throw orderError;
 
-      if (itemsError) throw itemsError;
+      await clearCart(session.user.id, branchId);
 
       toast({
         title: "Order placed successfully!",
@@ -116,6 +353,23 @@ const Checkout = () => {
     }
   };
 
+  if (cartLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-xl">Loading cart...</div>
+      </div>
+    );
+  }
+
+  if (cart.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-xl text-muted-foreground">Your cart is empty</p>
+        <Button onClick={() => navigate("/menu")}>Browse the Menu</Button>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <header className="bg-gradient-warm text-white shadow-soft">
@@ -128,6 +382,23 @@ const Checkout = () => {
       </header>
 
       <div className="container mx-auto px-4 py-8">
+        {allergenWarnings.length > 0 && (
+          <Alert variant="destructive" className="mb-8">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Your cart contains allergens you've told us about</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {allergenWarnings.map((warning, idx) => (
+                  <li key={idx}>
+                    {warning.name} contains{" "}
+                    {warning.allergens.map((a) => ALLERGEN_LABELS[a].toLowerCase()).join(", ")}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid md:grid-cols-2 gap-8">
           <div className="space-y-6">
             <Card>
@@ -170,6 +441,158 @@ const Checkout = () => {
             </Card>
             )}
 
+            <Card>
+              <CardHeader>
+                <CardTitle>When</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <RadioGroup value={timing} onValueChange={(v) => setTiming(v as "asap" | "scheduled")}>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="asap" id="asap" />
+                    <Label htmlFor="asap">As soon as possible</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="scheduled" id="scheduled" />
+                    <Label htmlFor="scheduled">Schedule for later</Label>
+                  </div>
+                </RadioGroup>
+                {timing === "scheduled" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" className="justify-start font-normal">
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {scheduledDay ? format(scheduledDay, "PP") : "Pick a day"}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={scheduledDay}
+                          onSelect={(day) => {
+                            setScheduledDay(day);
+                            setScheduledFor("");
+                          }}
+                          disabled={(day) => !isSchedulableDay(day, branchHours, branchTimeZone)}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <Select value={scheduledFor} onValueChange={setScheduledFor} disabled={slots.length === 0}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Pick a time" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {slots.map((slot) => (
+                          <SelectItem key={slot.toISOString()} value={slot.toISOString()}>
+                            {formatSlot(slot, branchTimeZone)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="col-span-2 text-sm text-muted-foreground">
+                      Times are the branch's local time ({branchTimeZone}).
+                    </p>
+                  </div>
+                )}
+                {errors.scheduledFor && <p className="text-sm text-destructive">{errors.scheduledFor}</p>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Add a Tip</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <RadioGroup value={tipOption} onValueChange={setTipOption} className="grid grid-cols-5 gap-2">
+                  {["none", ...TIP_PRESETS.map(String), "custom"].map((option) => (
+                    <Label
+                      key={option}
+                      htmlFor={`tip-${option}`}
+                      className="flex cursor-pointer items-center justify-center rounded-md border p-2 text-center has-[:checked]:border-primary has-[:checked]:bg-primary/10"
+                    >
+                      <RadioGroupItem value={option} id={`tip-${option}`} className="sr-only" />
+                      {option === "none" ? "None" : option === "custom" ? "Custom" : `${option}%`}
+                    </Label>
+                  ))}
+                </RadioGroup>
+                {tipOption === "custom" && (
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Tip amount ($)"
+                    value={customTip}
+                    onChange={(e) => setCustomTip(e.target.value)}
+                  />
+                )}
+                {errors.tip && <p className="text-sm text-destructive">{errors.tip}</p>}
+              </CardContent>
+            </Card>
+
+            {points > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Loyalty Points</CardTitle>
+                  <CardDescription>
+                    You have {points.toLocaleString()} points, worth ${pointsValue(points).toFixed(2)}.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    max={maxPoints}
+                    placeholder="Points to use"
+                    value={pointsInput}
+                    onChange={(e) => setPointsInput(e.target.value)}
+                  />
+                  <Button variant="outline" onClick={() => setPointsInput(String(maxPoints))} disabled={maxPoints === 0}>
+                    Use {maxPoints.toLocaleString()}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Gift Card</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {giftCard ? (
+                  <div className="flex items-center justify-between rounded-md border border-dashed p-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Gift className="h-4 w-4 text-primary" />
+                      <span className="font-mono font-semibold">{giftCard.code}</span>
+                      <span className="text-muted-foreground">${giftCard.balance.toFixed(2)} available</span>
+                    </div>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setGiftCard(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="XXXX-XXXX-XXXX-XXXX"
+                      value={giftCardInput}
+                      onChange={(e) => setGiftCardInput(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === "Enter" && applyGiftCard()}
+                      maxLength={19}
+                      className="font-mono"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={applyGiftCard}
+                      disabled={applyingGiftCard || !giftCardInput.trim()}
+                    >
+                      {applyingGiftCard ? "Checking..." : "Apply"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Order Notes (Optional)</CardTitle>
@@ -193,19 +616,91 @@ const Checkout = () => {
                 <CardTitle>Order Summary</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {cart.map((item: any) => (
-                  <div key={item.id} className="flex justify-between">
-                    <span>
-                      {item.name} x{item.quantity}
-                    </span>
-                    <span>${(item.price * item.quantity).toFixed(2)}</span>
+                {cart.map((item) => (
+                  <div key={item.lineId} className="space-y-2">
+                    <div className="flex justify-between">
+                      <div>
+                        <span>
+                          {item.name} x{item.quantity}
+                        </span>
+                        {item.modifiers.length > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            {item.modifiers.map((m) => m.name).join(", ")}
+                          </p>
+                        )}
+                        {item.combo && (
+                          <p className="text-sm text-muted-foreground">
+                            {item.combo.map((c) => c.name).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <span>${(unitPrice(item) * item.quantity).toFixed(2)}</span>
+                    </div>
+                    <Input
+                      placeholder="Instructions for this item (e.g. no ice)"
+                      value={lineNotes[item.lineId] || ""}
+                      onChange={(e) => setLineNotes({ ...lineNotes, [item.lineId]: e.target.value })}
+                      maxLength={200}
+                      className="h-8 text-sm"
+                    />
                   </div>
                 ))}
+                {errors.lineNotes && <p className="text-sm text-destructive">{errors.lineNotes}</p>}
+                <div className="border-t pt-4 space-y-2">
+                  {promo ? (
+                    <div className="flex items-center justify-between rounded-md border border-dashed p-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Tag className="h-4 w-4 text-primary" />
+                        <span className="font-semibold">{promo.code}</span>
+                        <span className="text-muted-foreground">{promo.description || promoSummary(promo)}</span>
+                      </div>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setPromo(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Promo code"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === "Enter" && applyPromo(promoInput)}
+                        maxLength={32}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => applyPromo(promoInput)}
+                        disabled={applyingPromo || !promoInput.trim()}
+                      >
+                        {applyingPromo ? "Checking..." : "Apply"}
+                      </Button>
+                    </div>
+                  )}
+                  {promo && discount.items + discount.delivery === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {subtotal < promo.min_subtotal
+                        ? `Spend $${promo.min_subtotal.toFixed(2)} or more to use this code.`
+                        : "This code doesn't apply to the items in your cart yet."}
+                    </p>
+                  )}
+                </div>
                 <div className="border-t pt-4 space-y-2">
                   <div className="flex justify-between text-muted-foreground">
                     <span>Subtotal</span>
                     <span>${subtotal.toFixed(2)}</span>
                   </div>
+                  {discount.items + discount.delivery > 0 && (
+                    <div className="flex justify-between text-success">
+                      <span>Discount ({promo.code})</span>
+                      <span>-${(discount.items + discount.delivery).toFixed(2)}</span>
+                    </div>
+                  )}
+                  {pointsDiscount > 0 && (
+                    <div className="flex justify-between text-success">
+                      <span>Points ({redeemPoints.toLocaleString()})</span>
+                      <span>-${pointsDiscount.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-muted-foreground">
                     <span>Tax (10%)</span>
                     <span>${tax.toFixed(2)}</span>
@@ -216,10 +711,28 @@ const Checkout = () => {
                       <span>${deliveryFee.toFixed(2)}</span>
                     </div>
                   )}
+                  {tip > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Tip</span>
+                      <span>${tip.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-xl font-bold pt-2 border-t">
                     <span>Total</span>
                     <span className="text-primary">${total.toFixed(2)}</span>
                   </div>
+                  {giftCardAmount > 0 && (
+                    <>
+                      <div className="flex justify-between text-success">
+                        <span>Gift card</span>
+                        <span>-${giftCardAmount.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span>Amount due</span>
+                        <span>${amountDue.toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </CardContent>
               <CardFooter>
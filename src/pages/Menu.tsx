@@ -6,9 +6,37 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { ShoppingCart, LogOut, Plus, Minus, MapPin } from "lucide-react";
+import { ShoppingCart, LogOut, Plus, Minus, MapPin, AlertTriangle, X, User } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ModifierDialog, ModifierGroup } from "@/components/ModifierDialog";
+import { ComboChoicesDialog } from "@/components/ComboChoicesDialog";
+import { fetchBranchMenu } from "@/lib/branch-menu";
+import { BranchCombo, fetchBranchCombos } from "@/lib/combos";
+import {
+  ALLERGEN_LABELS,
+  Allergen,
+  DIETARY_TAG_LABELS,
+  DietaryFilter,
+  DietaryTag,
+  matchesDietaryFilter,
+} from "@/lib/dietary";
+import {
+  CartChange,
+  CartItem,
+  SelectedComboChoice,
+  SelectedModifier,
+  cartSubtotal,
+  comboChoiceFor,
+  comboLineIdFor,
+  lineIdFor,
+  loadCart,
+  revalidateCart,
+  saveLocalCart,
+  syncCart,
+} from "@/lib/cart";
 
 interface MenuItem {
   id: string;
@@ -18,6 +46,8 @@ interface MenuItem {
   photo_url: string | null;
   category_id: string;
   available: boolean;
+  dietary_tags: DietaryTag[];
+  allergens: Allergen[];
 }
 
 interface Category {
@@ -31,19 +61,30 @@ interface Branch {
   address: string;
 }
 
-interface CartItem extends MenuItem {
-  quantity: number;
-}
+// Combos get their own tab alongside the menu categories
+const COMBOS_TAB = "combos";
 
 const Menu = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [userId, setUserId] = useState<string>("");
   const [userType, setUserType] = useState<string>("");
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [combos, setCombos] = useState<BranchCombo[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [selectedBranch, setSelectedBranch] = useState<string>("");
+  const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [cart, setCart] = useState<CartItem[]>([]);
+  // Set once the saved cart has been restored, so an empty cart never overwrites it
+  const [cartReady, setCartReady] = useState(false);
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [customizingItem, setCustomizingItem] = useState<MenuItem | null>(null);
+  const [customizingCombo, setCustomizingCombo] = useState<BranchCombo | null>(null);
+  const [dietaryFilter, setDietaryFilter] = useState<DietaryFilter>({ tags: [], excluded: [] });
+  // Allergens saved on the customer's profile, highlighted wherever an item contains them
+  const [savedAllergens, setSavedAllergens] = useState<Allergen[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -51,6 +92,24 @@ const Menu = () => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (selectedBranch && cartReady) {
+      fetchMenuItems();
+    }
+  }, [selectedBranch, cartReady]);
+
+  useEffect(() => {
+    if (!cartReady || !selectedBranch) return;
+
+    // Save locally on every change and push to the server once the customer pauses
+    const saved = saveLocalCart(userId, selectedBranch, cart);
+    const timeout = setTimeout(() => {
+      syncCart(userId, saved).catch((error) => console.error("Error saving cart:", error));
+    }, 1000);
+
+    return () => clearTimeout(timeout);
+  }, [cart, selectedBranch, cartReady, userId]);
+
   const checkAuth = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     
@@ -61,7 +120,7 @@ const Menu = () => {
 
     const { data: profile } = await supabase
       .from("profiles")
-      .select("user_type")
+      .select("user_type, allergens")
       .eq("id", session.user.id)
       .single();
 
@@ -71,22 +130,35 @@ const Menu = () => {
     }
 
     setUserType(profile?.user_type || "");
+    setSavedAllergens(profile?.allergens ?? []);
+    setUserId(session.user.id);
+
+    const saved = await loadCart(session.user.id);
+    if (saved && saved.items.length > 0) {
+      setCart(saved.items);
+      setSelectedBranch(saved.branchId);
+    }
+    setCartReady(true);
   };
 
   const fetchData = async () => {
     try {
-      const [menuRes, categoriesRes, branchesRes] = await Promise.all([
-        supabase.from("menu").select("*").eq("available", true),
-        supabase.from("menu_categories").select("*"),
+      const [categoriesRes, branchesRes, modifiersRes] = await Promise.all([
+        supabase.from("menu_categories").select("*").order("sort_order"),
         supabase.from("branches").select("*"),
+        supabase
+          .from("modifier_groups")
+          .select("*, modifier_options(*)")
+          .order("sort_order")
+          .order("sort_order", { referencedTable: "modifier_options" }),
       ]);
 
-      if (menuRes.data) setMenuItems(menuRes.data);
       if (categoriesRes.data) setCategories(categoriesRes.data);
+      if (modifiersRes.data) setModifierGroups(modifiersRes.data);
       if (branchesRes.data) {
         setBranches(branchesRes.data);
         if (branchesRes.data.length > 0) {
-          setSelectedBranch(branchesRes.data[0].id);
+          setSelectedBranch((current) => current || branchesRes.data[0].id);
         }
       }
     } catch (error) {
@@ -96,21 +168,106 @@ const Menu = () => {
     }
   };
 
-  const addToCart = (item: MenuItem) => {
+  const fetchMenuItems = async () => {
+    try {
+      const [items, branchCombos] = await Promise.all([
+        fetchBranchMenu(selectedBranch),
+        fetchBranchCombos(selectedBranch),
+      ]);
+      setMenuItems(items.filter((item) => item.available));
+      setCombos(branchCombos);
+
+      // Reprice cart lines for this branch and drop the ones it does not sell,
+      // which also catches anything that went stale while the cart was saved
+      const checked = new Set(cart.map((line) => line.lineId));
+      const refreshed = await revalidateCart(cart, selectedBranch);
+      // Merge into the current cart: lines added while this ran come from this branch's
+      // menu and are kept, and quantities the customer changed in the meantime win
+      setCart((prev) =>
+        prev.flatMap((line) => {
+          if (!checked.has(line.lineId)) return [line];
+          const fresh = refreshed.items.find((i) => i.lineId === line.lineId);
+          return fresh ? [{ ...fresh, quantity: line.quantity }] : [];
+        })
+      );
+      setCartChanges(refreshed.changes);
+    } catch (error) {
+      console.error("Error fetching menu:", error);
+    }
+  };
+
+  const groupsFor = (itemId: string) => modifierGroups.filter((g) => g.menu_id === itemId);
+
+  const addToCart = (item: MenuItem, modifiers: SelectedModifier[] = []) => {
+    if (!cartReady) return;
+
+    // Each distinct combination of modifiers gets its own cart line
+    const lineId = lineIdFor(item.id, modifiers);
     setCart((prev) => {
-      const existing = prev.find((i) => i.id === item.id);
+      const existing = prev.find((i) => i.lineId === lineId);
       if (existing) {
-        return prev.map((i) => (i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i));
+        return prev.map((i) => (i.lineId === lineId ? { ...i, quantity: i.quantity + 1 } : i));
       }
-      return [...prev, { ...item, quantity: 1 }];
+      return [...prev, { ...item, lineId, modifiers, quantity: 1 }];
     });
     toast({ title: "Added to cart", description: item.name });
   };
 
-  const updateQuantity = (itemId: string, delta: number) => {
+  const handleAdd = (item: MenuItem) => {
+    if (groupsFor(item.id).length > 0) {
+      setCustomizingItem(item);
+    } else {
+      addToCart(item);
+    }
+  };
+
+  const addComboToCart = (combo: BranchCombo, choices: SelectedComboChoice[]) => {
+    if (!cartReady) return;
+
+    const lineId = comboLineIdFor(combo.id, choices);
+    setCart((prev) => {
+      const existing = prev.find((i) => i.lineId === lineId);
+      if (existing) {
+        return prev.map((i) => (i.lineId === lineId ? { ...i, quantity: i.quantity + 1 } : i));
+      }
+      return [
+        ...prev,
+        {
+          lineId,
+          id: combo.id,
+          name: combo.name,
+          price: combo.price,
+          description: combo.description,
+          photo_url: combo.photo_url,
+          category_id: null,
+          available: true,
+          quantity: 1,
+          modifiers: [],
+          combo: choices,
+        },
+      ];
+    });
+    toast({ title: "Added to cart", description: combo.name });
+  };
+
+  const handleAddCombo = (combo: BranchCombo) => {
+    if (combo.slots.some((slot) => slot.options.length > 1)) {
+      setCustomizingCombo(combo);
+    } else {
+      addComboToCart(
+        combo,
+        combo.slots.map((slot) => comboChoiceFor(slot, slot.options[0]))
+      );
+    }
+  };
+
+  const updateQuantity = (lineId: string, delta: number) => {
+    // The cart is swapped out while switching branch, so edits then would be lost
+    if (!cartReady) return;
+
     setCart((prev) =>
       prev
-        .map((i) => (i.id === itemId ? { ...i, quantity: i.quantity + delta } : i))
+        .map((i) => (i.lineId === lineId ? { ...i, quantity: i.quantity + delta } : i))
         .filter((i) => i.quantity > 0)
     );
   };
@@ -120,6 +277,26 @@ const Menu = () => {
     navigate("/auth");
   };
 
+  // Each branch keeps its own cart: save the one being left and bring back the new branch's
+  const switchBranch = async (branchId: string) => {
+    if (branchId === selectedBranch) return;
+
+    // Take the old branch's menu away until the new one loads
+    setCartReady(false);
+    setMenuItems([]);
+    setCombos([]);
+    if (selectedBranch) {
+      syncCart(userId, saveLocalCart(userId, selectedBranch, cart))
+        .catch((error) => console.error("Error saving cart:", error));
+    }
+
+    const saved = await loadCart(userId, branchId);
+    setCart(saved?.items ?? []);
+    setCartChanges([]);
+    setSelectedBranch(branchId);
+    setCartReady(true);
+  };
+
   const handleCheckout = () => {
     if (!selectedBranch) {
       toast({ variant: "destructive", title: "Please select a branch" });
@@ -129,10 +306,35 @@ const Menu = () => {
       toast({ variant: "destructive", title: "Cart is empty" });
       return;
     }
-    navigate("/checkout", { state: { cart, branchId: selectedBranch } });
+    navigate("/checkout");
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const filteredItems = menuItems.filter((item) => matchesDietaryFilter(item, dietaryFilter));
+  // A combo stays on the menu while every slot still has an item that fits the filter
+  const filteredCombos = combos
+    .map((combo) => ({
+      ...combo,
+      slots: combo.slots.map((slot) => ({
+        ...slot,
+        options: slot.options.filter((option) => matchesDietaryFilter(option, dietaryFilter)),
+      })),
+    }))
+    .filter((combo) => combo.slots.every((slot) => slot.options.length > 0));
+  const filtering = dietaryFilter.tags.length > 0 || dietaryFilter.excluded.length > 0;
+
+  // Hide categories with nothing to order so customers never land on an empty tab
+  const visibleCategories = categories.filter((cat) =>
+    filteredItems.some((item) => item.category_id === cat.id)
+  );
+  const tabs = [
+    ...visibleCategories,
+    ...(filteredCombos.length > 0 ? [{ id: COMBOS_TAB, name: "Combos" }] : []),
+  ];
+  const activeCategory = tabs.some((tab) => tab.id === selectedCategory)
+    ? selectedCategory
+    : tabs[0]?.id || "";
+
+  const cartTotal = cartSubtotal(cart);
   const cartCount = cart.reduce((sum, item) => sum + item.quantity, 0);
 
   if (loading) {
@@ -158,6 +360,10 @@ const Menu = () => {
                 </span>
               )}
             </Button>
+            <Button variant="secondary" onClick={() => navigate("/account")}>
+              <User className="mr-2 h-4 w-4" />
+              Account
+            </Button>
             <Button variant="secondary" onClick={handleSignOut}>
               <LogOut className="mr-2 h-4 w-4" />
               Sign Out
@@ -172,7 +378,7 @@ const Menu = () => {
             <MapPin className="h-5 w-5" />
             Select Branch
           </Label>
-          <Select value={selectedBranch} onValueChange={setSelectedBranch}>
+          <Select value={selectedBranch} onValueChange={switchBranch}>
             <SelectTrigger className="w-full max-w-md">
               <SelectValue placeholder="Choose a branch" />
             </SelectTrigger>
@@ -186,19 +392,94 @@ const Menu = () => {
           </Select>
         </div>
 
-        <Tabs defaultValue={categories[0]?.id || ""} className="w-full">
+        <div className="mb-8 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold w-20">Dietary</span>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={dietaryFilter.tags}
+              onValueChange={(tags: DietaryTag[]) => setDietaryFilter((prev) => ({ ...prev, tags }))}
+            >
+              {(Object.keys(DIETARY_TAG_LABELS) as DietaryTag[]).map((tag) => (
+                <ToggleGroupItem key={tag} value={tag}>
+                  {DIETARY_TAG_LABELS[tag]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold w-20">Free from</span>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={dietaryFilter.excluded}
+              onValueChange={(excluded: Allergen[]) => setDietaryFilter((prev) => ({ ...prev, excluded }))}
+            >
+              {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map((allergen) => (
+                <ToggleGroupItem key={allergen} value={allergen}>
+                  {ALLERGEN_LABELS[allergen]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {savedAllergens.length > 0 && (
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => setDietaryFilter((prev) => ({ ...prev, excluded: savedAllergens }))}
+              >
+                Use my allergies
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {filtering && tabs.length === 0 && (
+          <p className="text-muted-foreground">Nothing on the menu matches these filters.</p>
+        )}
+
+        {cartChanges.length > 0 && (
+          <Alert variant="destructive" className="mb-8">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Your cart has changed</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {cartChanges.map((change, idx) => (
+                  <li key={idx}>
+                    {change.name}{" "}
+                    {change.reason === "unavailable" ? "is no longer available and was removed" : "has a new price"}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="absolute right-2 top-2 h-6 w-6"
+              onClick={() => setCartChanges([])}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </Alert>
+        )}
+
+        <Tabs value={activeCategory} onValueChange={setSelectedCategory} className="w-full">
           <TabsList className="mb-8 flex-wrap h-auto">
-            {categories.map((cat) => (
-              <TabsTrigger key={cat.id} value={cat.id}>
-                {cat.name}
+            {tabs.map((tab) => (
+              <TabsTrigger key={tab.id} value={tab.id}>
+                {tab.name}
               </TabsTrigger>
             ))}
           </TabsList>
 
-          {categories.map((category) => (
+          {visibleCategories.map((category) => (
             <TabsContent key={category.id} value={category.id}>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {menuItems
+                {filteredItems
                   .filter((item) => item.category_id === category.id)
                   .map((item) => (
                     <Card key={item.id} className="overflow-hidden hover:shadow-soft transition-shadow">
@@ -214,12 +495,29 @@ const Menu = () => {
                       <CardHeader>
                         <CardTitle>{item.name}</CardTitle>
                         <CardDescription>{item.description}</CardDescription>
+                        {(item.dietary_tags.length > 0 || item.allergens.length > 0) && (
+                          <div className="flex flex-wrap gap-1 pt-2">
+                            {item.dietary_tags.map((tag) => (
+                              <Badge key={tag} variant="secondary">
+                                {DIETARY_TAG_LABELS[tag]}
+                              </Badge>
+                            ))}
+                            {item.allergens.map((allergen) => (
+                              <Badge
+                                key={allergen}
+                                variant={savedAllergens.includes(allergen) ? "destructive" : "outline"}
+                              >
+                                Contains {ALLERGEN_LABELS[allergen].toLowerCase()}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </CardHeader>
                       <CardFooter className="flex items-center justify-between">
                         <span className="text-2xl font-bold text-primary">
                           ${item.price.toFixed(2)}
                         </span>
-                        {cart.find((i) => i.id === item.id) ? (
+                        {groupsFor(item.id).length === 0 && cart.find((i) => i.lineId === item.id) ? (
                           <div className="flex items-center gap-2">
                             <Button
                               size="icon"
@@ -229,7 +527,7 @@ const Menu = () => {
                               <Minus className="h-4 w-4" />
                             </Button>
                             <span className="font-semibold w-8 text-center">
-                              {cart.find((i) => i.id === item.id)?.quantity}
+                              {cart.find((i) => i.lineId === item.id)?.quantity}
                             </span>
                             <Button
                               size="icon"
@@ -240,16 +538,139 @@ const Menu = () => {
                             </Button>
                           </div>
                         ) : (
-                          <Button onClick={() => addToCart(item)}>Add to Cart</Button>
+                          <Button onClick={() => handleAdd(item)} disabled={!cartReady}>Add to Cart</Button>
                         )}
                       </CardFooter>
+                      {cart.some((i) => i.id === item.id && i.modifiers.length > 0) && (
+                        <CardContent className="space-y-2 pt-0">
+                          {cart
+                            .filter((i) => i.id === item.id && i.modifiers.length > 0)
+                            .map((line) => (
+                              <div key={line.lineId} className="flex items-center justify-between gap-2 text-sm">
+                                <span className="text-muted-foreground">
+                                  {line.modifiers.map((m) => m.name).join(", ")}
+                                </span>
+                                <div className="flex items-center gap-1">
+                                  <Button
+                                    size="icon"
+                                    variant="outline"
+                                    className="h-7 w-7"
+                                    onClick={() => updateQuantity(line.lineId, -1)}
+                                  >
+                                    <Minus className="h-3 w-3" />
+                                  </Button>
+                                  <span className="font-semibold w-6 text-center">{line.quantity}</span>
+                                  <Button
+                                    size="icon"
+                                    variant="outline"
+                                    className="h-7 w-7"
+                                    onClick={() => updateQuantity(line.lineId, 1)}
+                                  >
+                                    <Plus className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                        </CardContent>
+                      )}
                     </Card>
                   ))}
               </div>
             </TabsContent>
           ))}
+
+          <TabsContent value={COMBOS_TAB}>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {filteredCombos.map((combo) => (
+                <Card key={combo.id} className="overflow-hidden hover:shadow-soft transition-shadow">
+                  {combo.photo_url && (
+                    <div className="h-48 overflow-hidden">
+                      <img
+                        src={combo.photo_url}
+                        alt={combo.name}
+                        className="w-full h-full object-cover"
+                      />
+                    </div>
+                  )}
+                  <CardHeader>
+                    <CardTitle>{combo.name}</CardTitle>
+                    <CardDescription>{combo.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    {combo.slots.map((slot) => (
+                      <p key={slot.id}>
+                        <span className="font-medium">{slot.name}:</span>{" "}
+                        <span className="text-muted-foreground">
+                          {slot.options.map((option) => option.name).join(" or ")}
+                        </span>
+                      </p>
+                    ))}
+                  </CardContent>
+                  <CardFooter className="flex items-center justify-between">
+                    <span className="text-2xl font-bold text-primary">
+                      ${combo.price.toFixed(2)}
+                    </span>
+                    <Button onClick={() => handleAddCombo(combo)} disabled={!cartReady}>Add to Cart</Button>
+                  </CardFooter>
+                  {cart.some((i) => i.id === combo.id) && (
+                    <CardContent className="space-y-2 pt-0">
+                      {cart
+                        .filter((i) => i.id === combo.id)
+                        .map((line) => (
+                          <div key={line.lineId} className="flex items-center justify-between gap-2 text-sm">
+                            <span className="text-muted-foreground">
+                              {line.combo?.map((c) => c.name).join(", ")}
+                            </span>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                size="icon"
+                                variant="outline"
+                                className="h-7 w-7"
+                                onClick={() => updateQuantity(line.lineId, -1)}
+                              >
+                                <Minus className="h-3 w-3" />
+                              </Button>
+                              <span className="font-semibold w-6 text-center">{line.quantity}</span>
+                              <Button
+                                size="icon"
+                                variant="outline"
+                                className="h-7 w-7"
+                                onClick={() => updateQuantity(line.lineId, 1)}
+                              >
+                                <Plus className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
         </Tabs>
 
+        <ModifierDialog
+          open={!!customizingItem}
+          onOpenChange={(open) => !open && setCustomizingItem(null)}
+          item={customizingItem}
+          groups={customizingItem ? groupsFor(customizingItem.id) : []}
+          onConfirm={(modifiers) => {
+            addToCart(customizingItem, modifiers);
+            setCustomizingItem(null);
+          }}
+        />
+
+        <ComboChoicesDialog
+          open={!!customizingCombo}
+          onOpenChange={(open) => !open && setCustomizingCombo(null)}
+          combo={customizingCombo}
+          onConfirm={(choices) => {
+            addComboToCart(customizingCombo, choices);
+            setCustomizingCombo(null);
+          }}
+        />
+
         {cart.length > 0 && (
           <div className="fixed bottom-0 left-0 right-0 bg-card border-t shadow-soft p-4">
             <div className="container mx-auto flex items-center justify-between">
@@ -0,0 +1,384 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CancelOrderDialog } from "@/components/CancelOrderDialog";
+import { EditOrderDialog } from "@/components/EditOrderDialog";
+import { ArrowLeft, Pencil, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { statusColor, statusLabel } from "@/lib/order-status";
+
+interface OrderDetails {
+  id: string;
+  user_id: string;
+  branch_id: string;
+  order_type: string;
+  status: string;
+  tax: number | null;
+  tip: number | null;
+  discount: number;
+  points_redeemed: number;
+  points_discount: number;
+  gift_card_amount: number;
+  delivery_fee: number | null;
+  total: number;
+  delivery_address: string | null;
+  notes: string | null;
+  scheduled_for: string | null;
+  created_at: string;
+  branches: {
+    name: string;
+    address: string;
+  } | null;
+  ordered_items: Array<{
+    id: string;
+    menu_id: string | null;
+    quantity: number;
+    price_each: number;
+    notes: string | null;
+    parent_item_id: string | null;
+    combo_slot: string | null;
+    menu: {
+      name: string;
+    } | null;
+    combos: {
+      name: string;
+    } | null;
+    ordered_item_modifiers: Array<{
+      name: string;
+      price_delta: number;
+    }>;
+  }>;
+}
+
+interface StatusChange {
+  id: string;
+  status: string;
+  changed_by: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+const OrderDetail = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<OrderDetails | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkAuthAndFetch();
+
+    const channel = supabase
+      .channel(`order-${id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "orders",
+          filter: `id=eq.${id}`,
+        },
+        () => {
+          fetchOrder();
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "order_status_history",
+          filter: `order_id=eq.${id}`,
+        },
+        () => {
+          fetchHistory();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  const checkAuthAndFetch = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    await Promise.all([fetchOrder(), fetchHistory()]);
+  };
+
+  const fetchOrder = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("orders")
+        .select(`
+          *,
+          branches(name, address),
+          ordered_items(
+            id,
+            menu_id,
+            quantity,
+            price_each,
+            notes,
+            parent_item_id,
+            combo_slot,
+            menu(name),
+            combos(name),
+            ordered_item_modifiers(name, price_delta)
+          )
+        `)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setOrder(data);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("order_status_history")
+        .select("id, status, changed_by, reason, created_at")
+        .eq("order_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-xl">Loading order...</div>
+      </div>
+    );
+  }
+
+  const subtotal = order
+    ? order.ordered_items.reduce((sum, item) => sum + item.price_each * item.quantity, 0)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-gradient-warm text-white shadow-soft">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Order Details</h1>
+          <Button variant="secondary" onClick={() => navigate("/orders")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Orders
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        {!order ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Order not found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-8">
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Order #{order.id.slice(0, 8)}
+                  <Badge className={statusColor(order.status)}>
+                    {statusLabel(order.status)}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>
+                  {format(new Date(order.created_at), "PPp")} ·{" "}
+                  <span className="capitalize">{order.order_type.replace("_", " ")}</span>
+                  {order.branches && ` · ${order.branches.name}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {order.ordered_items.filter((item) => !item.parent_item_id).map((item) => (
+                  <div key={item.id} className="flex justify-between gap-4">
+                    <div>
+                      <p>
+                        {item.quantity}x {item.combos?.name || item.menu?.name || "Removed item"}
+                      </p>
+                      {order.ordered_items
+                        .filter((component) => component.parent_item_id === item.id)
+                        .map((component) => (
+                          <p key={component.id} className="pl-4 text-sm text-muted-foreground">
+                            {component.combo_slot}: {component.menu?.name || "Removed item"}
+                          </p>
+                        ))}
+                      {item.ordered_item_modifiers.map((modifier, idx) => (
+                        <p key={idx} className="pl-4 text-sm text-muted-foreground">
+                          {modifier.name}
+                          {modifier.price_delta !== 0 &&
+                            ` (${modifier.price_delta > 0 ? "+" : "-"}$${Math.abs(modifier.price_delta).toFixed(2)})`}
+                        </p>
+                      ))}
+                      {item.notes && (
+                        <p className="pl-4 text-sm text-muted-foreground italic">“{item.notes}”</p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p>${(item.price_each * item.quantity).toFixed(2)}</p>
+                      {item.quantity > 1 && (
+                        <p className="text-xs text-muted-foreground">${item.price_each.toFixed(2)} each</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                <div className="border-t pt-4 space-y-2">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Subtotal</span>
+                    <span>${subtotal.toFixed(2)}</span>
+                  </div>
+                  {order.discount > 0 && (
+                    <div className="flex justify-between text-success">
+                      <span>Discount</span>
+                      <span>-${order.discount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {order.points_discount > 0 && (
+                    <div className="flex justify-between text-success">
+                      <span>Points ({order.points_redeemed.toLocaleString()})</span>
+                      <span>-${order.points_discount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Tax</span>
+                    <span>${(order.tax ?? 0).toFixed(2)}</span>
+                  </div>
+                  {order.delivery_fee > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Delivery Fee</span>
+                      <span>${order.delivery_fee.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {order.tip > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Tip</span>
+                      <span>${order.tip.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-xl font-bold pt-2 border-t">
+                    <span>Total</span>
+                    <span className="text-primary">${order.total.toFixed(2)}</span>
+                  </div>
+                  {order.gift_card_amount > 0 && (
+                    <>
+                      <div className="flex justify-between text-success">
+                        <span>Paid by gift card</span>
+                        <span>-${order.gift_card_amount.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span>Amount due</span>
+                        <span>${(order.total - order.gift_card_amount).toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="border-t pt-4 space-y-1 text-sm">
+                  {order.scheduled_for && (
+                    <p>
+                      <span className="font-semibold">Scheduled for:</span>{" "}
+                      {format(new Date(order.scheduled_for), "PPp")}
+                    </p>
+                  )}
+                  {order.delivery_address && (
+                    <p>
+                      <span className="font-semibold">Delivery to:</span> {order.delivery_address}
+                    </p>
+                  )}
+                  {order.notes && (
+                    <p>
+                      <span className="font-semibold">Notes:</span> {order.notes}
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Status</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="relative border-l border-border ml-2 space-y-6">
+                  {history.map((change, idx) => (
+                    <li key={change.id} className="ml-4">
+                      <span
+                        className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                          idx === history.length - 1 ? statusColor(change.status) : "bg-muted-foreground"
+                        }`}
+                      />
+                      <p className="font-semibold capitalize">{change.status.replace("_", " ")}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(change.created_at), "PPp")}
+                        {change.changed_by && idx > 0 &&
+                          (change.changed_by === order.user_id ? " · by you" : " · by the restaurant")}
+                      </p>
+                      {change.reason && (
+                        <p className="text-sm italic">{change.reason}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                {order.status === "pending" && (
+                  <div className="mt-6 space-y-2">
+                    <Button variant="outline" className="w-full" onClick={() => setEditOpen(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit Items
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full text-destructive"
+                      onClick={() => setCancelOpen(true)}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel Order
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <CancelOrderDialog
+        open={cancelOpen}
+        onOpenChange={setCancelOpen}
+        orderId={order?.id ?? null}
+        onCancelled={fetchOrder}
+      />
+
+      <EditOrderDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        order={order}
+        onSaved={fetchOrder}
+      />
+    </div>
+  );
+};
+
+export default OrderDetail;
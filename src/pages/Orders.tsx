@@ -4,26 +4,95 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CancelOrderDialog } from "@/components/CancelOrderDialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ChevronRight, RotateCcw, XCircle } from "lucide-react";
 import { format } from "date-fns";
+import {
+  CartChange,
+  CartItem,
+  comboChoiceFor,
+  comboLineIdFor,
+  lineIdFor,
+  loadCart,
+  revalidateCart,
+  saveCart,
+} from "@/lib/cart";
+import { fetchBranchCombos } from "@/lib/combos";
+import { statusColor, statusLabel } from "@/lib/order-status";
 
 interface Order {
   id: string;
   order_type: string;
   status: string;
   total: number;
+  tip: number | null;
+  discount: number;
+  points_discount: number;
   delivery_address: string | null;
   notes: string | null;
+  scheduled_for: string | null;
   created_at: string;
+  branch_id: string;
   branches: {
     name: string;
     address: string;
   };
+  ordered_items: Array<{
+    id: string;
+    menu_id: string | null;
+    combo_id: string | null;
+    parent_item_id: string | null;
+    combo_slot: string | null;
+    quantity: number;
+    price_each: number;
+    notes: string | null;
+    menu: {
+      name: string;
+      description: string | null;
+      photo_url: string | null;
+      category_id: string | null;
+    } | null;
+    combos: {
+      name: string;
+      description: string | null;
+      photo_url: string | null;
+    } | null;
+    ordered_item_modifiers: Array<{
+      modifier_option_id: string | null;
+      name: string;
+      price_delta: number;
+    }>;
+  }>;
 }
 
+// Lines that merge into one cart line keep both sets of instructions
+const joinNotes = (current: string | undefined, next: string | null) =>
+  [current, next].filter(Boolean).join("; ") || undefined;
+
 const Orders = () => {
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string>("");
   const [orders, setOrders] = useState<Order[]>([]);
+  const [reordering, setReordering] = useState<string | null>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<string | null>(null);
+  // A rebuilt cart waiting for the customer to agree to replace their current one
+  const [pendingReorder, setPendingReorder] = useState<{
+    branchId: string;
+    items: CartItem[];
+    changes: CartChange[];
+  } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -57,6 +126,7 @@ const Orders = () => {
       return;
     }
 
+    setUserId(session.user.id);
     await fetchOrders();
   };
 
@@ -66,7 +136,20 @@ const Orders = () => {
         .from("orders")
         .select(`
           *,
-          branches(name, address)
+          branches(name, address),
+          ordered_items(
+            id,
+            menu_id,
+            combo_id,
+            parent_item_id,
+            combo_slot,
+            quantity,
+            price_each,
+            notes,
+            menu(name, description, photo_url, category_id),
+            combos(name, description, photo_url),
+            ordered_item_modifiers(modifier_option_id, name, price_delta)
+          )
         `)
         .order("created_at", { ascending: false });
 
@@ -79,16 +162,149 @@ const Orders = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending: "bg-yellow-500",
-      preparing: "bg-blue-500",
-      ready: "bg-green-500",
-      in_delivery: "bg-purple-500",
-      delivered: "bg-success",
-      cancelled: "bg-destructive",
-    };
-    return colors[status] || "bg-muted";
+  // Rebuilds the cart from a past order at today's prices and sends the customer to checkout
+  const handleReorder = async (order: Order) => {
+    setReordering(order.id);
+
+    try {
+      const changes: CartChange[] = [];
+      const lines: CartItem[] = [];
+      const comboIds = order.ordered_items.filter((item) => item.combo_id).map((item) => item.combo_id);
+      const combos = comboIds.length > 0 ? await fetchBranchCombos(order.branch_id, comboIds) : [];
+
+      for (const item of order.ordered_items) {
+        if (item.parent_item_id) continue;
+
+        if (item.combo_id) {
+          // Components only record the slot's name, so choices are matched to today's slots by it
+          const combo = combos.find((c) => c.id === item.combo_id);
+          const choices = order.ordered_items
+            .filter((component) => component.parent_item_id === item.id)
+            .map((component) => {
+              const slot = combo?.slots.find((s) => s.name === component.combo_slot);
+              const option = slot?.options.find((o) => o.menu_id === component.menu_id);
+              return option && comboChoiceFor(slot, option);
+            });
+
+          if (!combo || choices.length !== combo.slots.length || choices.some((c) => !c)) {
+            changes.push({ name: item.combos?.name || "A combo", reason: "unavailable" });
+            continue;
+          }
+
+          const lineId = comboLineIdFor(combo.id, choices);
+          const existing = lines.find((line) => line.lineId === lineId);
+
+          if (existing) {
+            existing.quantity += item.quantity;
+            existing.notes = joinNotes(existing.notes, item.notes);
+          } else {
+            lines.push({
+              ...item.combos,
+              lineId,
+              id: combo.id,
+              price: item.price_each - choices.reduce((sum, c) => sum + c.price_delta, 0),
+              category_id: null,
+              available: true,
+              quantity: item.quantity,
+              modifiers: [],
+              combo: choices,
+              notes: item.notes ?? undefined,
+            });
+          }
+          continue;
+        }
+
+        // Items or options deleted since the order was placed can no longer be matched
+        if (!item.menu_id || item.ordered_item_modifiers.some((m) => !m.modifier_option_id)) {
+          changes.push({ name: item.menu?.name || "An item", reason: "unavailable" });
+          continue;
+        }
+
+        const modifiers = item.ordered_item_modifiers.map((m) => ({
+          id: m.modifier_option_id,
+          name: m.name,
+          price_delta: m.price_delta,
+        }));
+        const lineId = lineIdFor(item.menu_id, modifiers);
+        const existing = lines.find((line) => line.lineId === lineId);
+
+        if (existing) {
+          existing.quantity += item.quantity;
+          existing.notes = joinNotes(existing.notes, item.notes);
+        } else {
+          lines.push({
+            ...item.menu,
+            lineId,
+            id: item.menu_id,
+            price: item.price_each - modifiers.reduce((sum, m) => sum + m.price_delta, 0),
+            available: true,
+            quantity: item.quantity,
+            modifiers,
+            notes: item.notes ?? undefined,
+          });
+        }
+      }
+
+      const refreshed = await revalidateCart(lines, order.branch_id);
+      changes.push(...refreshed.changes);
+
+      if (refreshed.items.length === 0) {
+        toast({
+          variant: "destructive",
+          title: "Can't reorder",
+          description: "None of the items in this order are available anymore.",
+        });
+        return;
+      }
+
+      // Ask before throwing away what the customer already has in their cart for this branch
+      const current = await loadCart(userId, order.branch_id);
+      if (current && current.items.length > 0) {
+        setPendingReorder({ branchId: order.branch_id, items: refreshed.items, changes });
+        return;
+      }
+
+      await finishReorder(order.branch_id, refreshed.items, changes);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setReordering(null);
+    }
+  };
+
+  const finishReorder = async (branchId: string, items: CartItem[], changes: CartChange[]) => {
+    await saveCart(userId, branchId, items);
+
+    if (changes.length > 0) {
+      toast({
+        title: "Some items have changed",
+        description: changes
+          .map((c) => `${c.name} ${c.reason === "unavailable" ? "is no longer available" : "has a new price"}`)
+          .join(", "),
+      });
+    }
+
+    navigate("/checkout");
+  };
+
+  const confirmReorder = async () => {
+    if (!pendingReorder) return;
+
+    try {
+      await finishReorder(pendingReorder.branchId, pendingReorder.items, pendingReorder.changes);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setPendingReorder(null);
+    }
   };
 
   if (loading) {
@@ -130,8 +346,8 @@ const Orders = () => {
                     <div>
                       <CardTitle className="flex items-center gap-2">
                         Order #{order.id.slice(0, 8)}
-                        <Badge className={getStatusColor(order.status)}>
-                          {order.status.replace("_", " ").toUpperCase()}
+                        <Badge className={statusColor(order.status)}>
+                          {statusLabel(order.status)}
                         </Badge>
                       </CardTitle>
                       <CardDescription>
@@ -142,6 +358,16 @@ const Orders = () => {
                       <p className="text-2xl font-bold text-primary">
                         ${order.total.toFixed(2)}
                       </p>
+                      {order.tip > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          incl. ${order.tip.toFixed(2)} tip
+                        </p>
+                      )}
+                      {order.discount + order.points_discount > 0 && (
+                        <p className="text-xs text-success">
+                          saved ${(order.discount + order.points_discount).toFixed(2)}
+                        </p>
+                      )}
                       <p className="text-sm text-muted-foreground capitalize">
                         {order.order_type.replace("_", " ")}
                       </p>
@@ -154,6 +380,12 @@ const Orders = () => {
                       <span className="font-semibold">Branch:</span> {order.branches.name}
                     </p>
                     <p className="text-muted-foreground">{order.branches.address}</p>
+                    {order.scheduled_for && (
+                      <p>
+                        <span className="font-semibold">Scheduled for:</span>{" "}
+                        {format(new Date(order.scheduled_for), "PPp")}
+                      </p>
+                    )}
                     {order.delivery_address && (
                       <p>
                         <span className="font-semibold">Delivery to:</span> {order.delivery_address}
@@ -165,12 +397,81 @@ const Orders = () => {
                       </p>
                     )}
                   </div>
+
+                  <div className="border-t mt-4 pt-4 space-y-1 text-sm">
+                    {order.ordered_items.filter((item) => !item.parent_item_id).map((item, idx) => (
+                      <div key={idx} className="flex justify-between">
+                        <span>
+                          {item.quantity}x {item.combos?.name || item.menu?.name || "Removed item"}
+                          {item.ordered_item_modifiers.length > 0 && (
+                            <span className="text-muted-foreground">
+                              {" "}({item.ordered_item_modifiers.map((m) => m.name).join(", ")})
+                            </span>
+                          )}
+                          {item.combos && (
+                            <span className="text-muted-foreground">
+                              {" "}({order.ordered_items
+                                .filter((component) => component.parent_item_id === item.id)
+                                .map((component) => component.menu?.name || "Removed item")
+                                .join(", ")})
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-muted-foreground">
+                          ${(item.price_each * item.quantity).toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-end gap-2 mt-4">
+                    {order.status === "pending" && (
+                      <Button variant="ghost" className="text-destructive" onClick={() => setCancellingOrder(order.id)}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
+                    )}
+                    <Button variant="ghost" onClick={() => navigate(`/orders/${order.id}`)}>
+                      Details
+                      <ChevronRight className="ml-2 h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleReorder(order)}
+                      disabled={reordering === order.id}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      {reordering === order.id ? "Adding to cart..." : "Reorder"}
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
       </div>
+
+      <CancelOrderDialog
+        open={!!cancellingOrder}
+        onOpenChange={(open) => !open && setCancellingOrder(null)}
+        orderId={cancellingOrder}
+        onCancelled={fetchOrders}
+      />
+
+      <AlertDialog open={!!pendingReorder} onOpenChange={(open) => !open && setPendingReorder(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace your cart?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You already have items in your cart for this branch. Reordering replaces them with the items from this order.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep my cart</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReorder}>Replace cart</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -1,44 +1,81 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { LogOut, RefreshCw } from "lucide-react";
-import { format } from "date-fns";
+import { Clock, LogOut, Pencil, RefreshCw } from "lucide-react";
+import { format, isAfter } from "date-fns";
+import { nextStatuses, statusActionLabel, statusColor, statusLabel } from "@/lib/order-status";
+import { formatSlot, prepStartsAt } from "@/lib/scheduling";
 
 interface Order {
   id: string;
   order_type: string;
   status: string;
   total: number;
+  gift_card_amount: number;
   delivery_address: string | null;
   notes: string | null;
+  scheduled_for: string | null;
+  edited_at: string | null;
   created_at: string;
   profiles: {
     name: string;
     phone: string;
   };
   ordered_items: Array<{
+    id: string;
     quantity: number;
     price_each: number;
+    notes: string | null;
+    parent_item_id: string | null;
+    combo_slot: string | null;
     menu: {
       name: string;
-    };
+    } | null;
+    combos: {
+      name: string;
+    } | null;
+    ordered_item_modifiers: Array<{
+      name: string;
+    }>;
+  }>;
+  order_status_history: Array<{
+    id: string;
+    status: string;
+    reason: string | null;
+    created_at: string;
+    profiles: {
+      name: string;
+    } | null;
   }>;
 }
 
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
 const Staff = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [userId, setUserId] = useState<string>("");
   const [branchId, setBranchId] = useState<string>("");
+  // Due times are shown on the branch's clock, whatever zone this device is set to
+  const [branchTimeZone, setBranchTimeZone] = useState("UTC");
+  // Optional reason typed on a card, sent with its next status change
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(new Date());
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     checkStaffAuth();
+
+    // Re-check once a minute which scheduled orders have reached their prep window
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
   }, []);
 
   useEffect(() => {
@@ -58,6 +95,26 @@ const Staff = () => {
             fetchOrders();
           }
         )
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "order_status_history",
+            filter: "status=eq.cancelled",
+          },
+          (payload) => {
+            // Alert the kitchen when someone else, usually the customer, cancels an order
+            const change = payload.new as { order_id: string; changed_by: string | null; reason: string | null };
+            if (change.changed_by === userId) return;
+
+            toast({
+              variant: "destructive",
+              title: `Order #${change.order_id.slice(0, 8)} was cancelled`,
+              description: change.reason || undefined,
+            });
+          }
+        )
         .subscribe();
 
       return () => {
@@ -85,12 +142,15 @@ const Staff = () => {
 
     const { data: staff } = await supabase
       .from("staff")
-      .select("branch_id")
+      .select("branch_id, branches(timezone)")
       .eq("user_id", session.user.id)
       .single();
 
+    setUserId(session.user.id);
+
     if (staff?.branch_id) {
       setBranchId(staff.branch_id);
+      setBranchTimeZone(staff.branches?.timezone ?? "UTC");
     } else {
       toast({
         variant: "destructive",
@@ -109,17 +169,25 @@ const Staff = () => {
         .from("orders")
         .select(`
           *,
-          profiles(name, phone),
+          profiles!orders_user_id_fkey(name, phone),
           ordered_items(
+            id,
             quantity,
             price_each,
-            menu(name)
-          )
+            notes,
+            parent_item_id,
+            combo_slot,
+            menu(name),
+            combos(name),
+            ordered_item_modifiers(name)
+          ),
+          order_status_history(id, status, reason, created_at, profiles(name))
         `)
         .eq("branch_id", branchId)
         .neq("status", "delivered")
         .neq("status", "cancelled")
-        .order("created_at", { ascending: false });
+        .order("created_at", { ascending: false })
+        .order("created_at", { referencedTable: "order_status_history" });
 
       if (error) throw error;
       setOrders(data || []);
@@ -132,10 +200,11 @@ const Staff = () => {
 
   const updateOrderStatus = async (orderId: string, newStatus: string) => {
     try {
-      const { error } = await supabase
-        .from("orders")
-        .update({ status: newStatus as any })
-        .eq("id", orderId);
+      const { error } = await supabase.rpc("update_order_status", {
+        _order_id: orderId,
+        _status: newStatus as OrderStatus,
+        _reason: reasons[orderId]?.trim() || null,
+      });
 
       if (error) throw error;
 
@@ -144,12 +213,13 @@ const Staff = () => {
         description: `Order status changed to ${newStatus.replace("_", " ")}`,
       });
 
+      setReasons((prev) => ({ ...prev, [orderId]: "" }));
       fetchOrders();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
       });
     }
   };
@@ -159,15 +229,18 @@ const Staff = () => {
     navigate("/auth");
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending: "bg-yellow-500",
-      preparing: "bg-blue-500",
-      ready: "bg-green-500",
-      in_delivery: "bg-purple-500",
-    };
-    return colors[status] || "bg-muted";
-  };
+  // Pending scheduled orders stay out of the queue until it is time to start on them
+  const isHeld = (order: Order) =>
+    order.status === "pending" && !!order.scheduled_for && isAfter(prepStartsAt(order.scheduled_for), now);
+
+  // Edits only matter to the kitchen until the food is made
+  const showEdited = (order: Order) =>
+    !!order.edited_at && (order.status === "pending" || order.status === "preparing");
+
+  const activeOrders = orders.filter((order) => !isHeld(order));
+  const heldOrders = orders
+    .filter(isHeld)
+    .sort((a, b) => new Date(a.scheduled_for).getTime() - new Date(b.scheduled_for).getTime());
 
   if (loading) {
     return (
@@ -204,92 +277,186 @@ const Staff = () => {
               </p>
             </CardContent>
           </Card>
-        ) : orders.length === 0 ? (
-          <Card>
-            <CardContent className="py-12 text-center">
-              <p className="text-muted-foreground">No active orders</p>
-            </CardContent>
-          </Card>
         ) : (
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {orders.map((order) => (
-              <Card key={order.id} className="hover:shadow-soft transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <CardTitle className="flex items-center gap-2">
-                        #{order.id.slice(0, 8)}
-                        <Badge className={getStatusColor(order.status)}>
-                          {order.status.replace("_", " ").toUpperCase()}
-                        </Badge>
-                      </CardTitle>
-                      <CardDescription>
-                        {format(new Date(order.created_at), "p")}
-                      </CardDescription>
-                    </div>
-                    <div className="text-right">
-                      <p className="text-xl font-bold text-primary">
-                        ${order.total.toFixed(2)}
-                      </p>
-                      <p className="text-xs text-muted-foreground capitalize">
-                        {order.order_type.replace("_", " ")}
-                      </p>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <p className="font-semibold">Customer: {order.profiles.name}</p>
-                    {order.profiles.phone && (
-                      <p className="text-sm text-muted-foreground">{order.profiles.phone}</p>
-                    )}
-                    {order.delivery_address && (
-                      <p className="text-sm">
-                        <span className="font-semibold">Deliver to:</span> {order.delivery_address}
-                      </p>
-                    )}
-                    {order.notes && (
-                      <p className="text-sm">
-                        <span className="font-semibold">Notes:</span> {order.notes}
-                      </p>
-                    )}
-                  </div>
-
-                  <div className="border-t pt-4">
-                    <p className="font-semibold mb-2">Items:</p>
-                    <div className="space-y-1">
-                      {order.ordered_items.map((item, idx) => (
-                        <p key={idx} className="text-sm">
-                          {item.quantity}x {item.menu.name}
-                        </p>
-                      ))}
-                    </div>
-                  </div>
-
-                  <div className="border-t pt-4">
-                    <p className="text-sm font-semibold mb-2">Update Status:</p>
-                    <Select
-                      value={order.status}
-                      onValueChange={(v) => updateOrderStatus(order.id, v)}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="preparing">Preparing</SelectItem>
-                        <SelectItem value="ready">Ready</SelectItem>
-                        {order.order_type === "delivery" && (
-                          <SelectItem value="in_delivery">In Delivery</SelectItem>
-                        )}
-                        <SelectItem value="delivered">Delivered</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+          <div className="space-y-8">
+            {activeOrders.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground">No active orders</p>
                 </CardContent>
               </Card>
-            ))}
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {activeOrders.map((order) => (
+                  <Card
+                    key={order.id}
+                    className={`hover:shadow-soft transition-shadow ${showEdited(order) ? "ring-2 ring-orange-500" : ""}`}
+                  >
+                    <CardHeader>
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            #{order.id.slice(0, 8)}
+                            <Badge className={statusColor(order.status)}>
+                              {statusLabel(order.status)}
+                            </Badge>
+                          </CardTitle>
+                          <CardDescription>
+                            {format(new Date(order.created_at), "p")}
+                          </CardDescription>
+                          {order.scheduled_for && (
+                            <Badge variant="outline" className="mt-1">
+                              <Clock className="mr-1 h-3 w-3" />
+                              Due {formatSlot(new Date(order.scheduled_for), branchTimeZone)}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xl font-bold text-primary">
+                            ${order.total.toFixed(2)}
+                          </p>
+                          {order.gift_card_amount > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Collect ${(order.total - order.gift_card_amount).toFixed(2)} (gift card paid ${order.gift_card_amount.toFixed(2)})
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground capitalize">
+                            {order.order_type.replace("_", " ")}
+                          </p>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {showEdited(order) && (
+                        <div className="flex items-center gap-2 rounded-md bg-orange-100 px-3 py-2 text-sm font-semibold text-orange-800">
+                          <Pencil className="h-4 w-4" />
+                          Customer changed the items at {format(new Date(order.edited_at), "p")}
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <p className="font-semibold">Customer: {order.profiles.name}</p>
+                        {order.profiles.phone && (
+                          <p className="text-sm text-muted-foreground">{order.profiles.phone}</p>
+                        )}
+                        {order.delivery_address && (
+                          <p className="text-sm">
+                            <span className="font-semibold">Deliver to:</span> {order.delivery_address}
+                          </p>
+                        )}
+                        {order.notes && (
+                          <p className="text-sm">
+                            <span className="font-semibold">Notes:</span> {order.notes}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="border-t pt-4">
+                        <p className="font-semibold mb-2">Items:</p>
+                        <div className="space-y-1">
+                          {order.ordered_items.filter((item) => !item.parent_item_id).map((item) => (
+                            <div key={item.id} className="text-sm">
+                              <p>
+                                {item.quantity}x {item.combos?.name || item.menu?.name || "Removed item"}
+                              </p>
+                              {/* Combos are made as their component items */}
+                              {order.ordered_items
+                                .filter((component) => component.parent_item_id === item.id)
+                                .map((component) => (
+                                  <p key={component.id} className="pl-4">
+                                    {component.quantity}x {component.menu?.name || "Removed item"}{" "}
+                                    <span className="text-muted-foreground">({component.combo_slot})</span>
+                                  </p>
+                                ))}
+                              {item.ordered_item_modifiers.length > 0 && (
+                                <p className="pl-4 text-muted-foreground">
+                                  {item.ordered_item_modifiers.map((m) => m.name).join(", ")}
+                                </p>
+                              )}
+                              {item.notes && (
+                                <p className="pl-4 font-medium text-accent">“{item.notes}”</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {order.order_status_history.length > 0 && (
+                        <div className="border-t pt-4">
+                          <p className="text-sm font-semibold mb-2">History:</p>
+                          <ul className="space-y-1 text-xs text-muted-foreground">
+                            {order.order_status_history.map((change) => (
+                              <li key={change.id}>
+                                <span className="font-medium text-foreground capitalize">
+                                  {change.status.replace("_", " ")}
+                                </span>{" "}
+                                {format(new Date(change.created_at), "p")}
+                                {change.profiles && ` · ${change.profiles.name}`}
+                                {change.reason && <span className="block pl-2 italic">{change.reason}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      <div className="border-t pt-4 space-y-2">
+                        <p className="text-sm font-semibold">Update Status:</p>
+                        <Input
+                          placeholder="Reason (optional)"
+                          value={reasons[order.id] || ""}
+                          onChange={(e) => setReasons((prev) => ({ ...prev, [order.id]: e.target.value }))}
+                          maxLength={500}
+                          className="h-8 text-sm"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          {nextStatuses(order.order_type, order.status).map((status) => (
+                            <Button
+                              key={status}
+                              size="sm"
+                              variant={status === "cancelled" ? "destructive" : "default"}
+                              onClick={() => updateOrderStatus(order.id, status)}
+                            >
+                              {statusActionLabel(order.order_type, status)}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            {heldOrders.length > 0 && (
+              <div className="space-y-4">
+                <h2 className="text-xl font-semibold flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Scheduled
+                </h2>
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {heldOrders.map((order) => (
+                    <Card key={order.id} className="opacity-80">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-base">
+                          #{order.id.slice(0, 8)} · Due {formatSlot(new Date(order.scheduled_for), branchTimeZone, true)}
+                        </CardTitle>
+                        <CardDescription>
+                          Starts prep at {formatSlot(prepStartsAt(order.scheduled_for), branchTimeZone)} ·{" "}
+                          <span className="capitalize">{order.order_type.replace("_", " ")}</span>
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="text-sm space-y-1">
+                        <p className="font-semibold">{order.profiles.name}</p>
+                        {order.ordered_items.filter((item) => !item.parent_item_id).map((item) => (
+                          <p key={item.id} className="text-muted-foreground">
+                            {item.quantity}x {item.combos?.name || item.menu?.name || "Removed item"}
+                          </p>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+interface MenuItem {
+  id: string;
+  name: string;
+  price: number;
+  available: boolean | null;
+  branch_menu: Array<{
+    available: boolean;
+    price: number | null;
+  }>;
+}
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+const AdminBranchMenu = () => {
+  const { toast } = useToast();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [selectedBranch, setSelectedBranch] = useState<string>("");
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  useEffect(() => {
+    if (selectedBranch) {
+      fetchMenu();
+    }
+  }, [selectedBranch]);
+
+  const fetchBranches = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("branches")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setBranches(data || []);
+      if (data && data.length > 0) {
+        setSelectedBranch(data[0].id);
+      }
+    } catch (error) {
+      console.error("Error fetching branches:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMenu = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("menu")
+        .select("id, name, price, available, branch_menu(available, price)")
+        .eq("branch_menu.branch_id", selectedBranch)
+        .is("archived_at", null)
+        .order("name");
+
+      if (error) throw error;
+      setMenuItems(data || []);
+    } catch (error) {
+      console.error("Error fetching menu:", error);
+    }
+  };
+
+  const setAvailable = async (item: MenuItem, available: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("branch_menu")
+        .upsert(
+          { branch_id: selectedBranch, menu_id: item.id, available },
+          { onConflict: "branch_id,menu_id" }
+        );
+
+      if (error) throw error;
+
+      toast({
+        title: available ? "Back on sale" : "Marked sold out",
+        description: item.name,
+      });
+
+      fetchMenu();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const setPrice = async (item: MenuItem, value: string) => {
+    const price = value.trim() === "" ? null : Number(value);
+    if (price === (item.branch_menu[0]?.price ?? null)) return;
+
+    if (price !== null && (isNaN(price) || price < 0)) {
+      toast({ variant: "destructive", title: "Price must be a positive number" });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("branch_menu")
+        .upsert(
+          { branch_id: selectedBranch, menu_id: item.id, price },
+          { onConflict: "branch_id,menu_id" }
+        );
+
+      if (error) throw error;
+
+      toast({
+        title: price === null ? "Using menu price" : "Price override saved",
+        description: `${item.name}: $${(price ?? item.price).toFixed(2)}`,
+      });
+
+      fetchMenu();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Branch Menu</CardTitle>
+          <CardDescription>
+            Switch items off or change prices at a single branch without affecting the others.
+          </CardDescription>
+        </div>
+        <Select value={selectedBranch} onValueChange={setSelectedBranch}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Choose a branch" />
+          </SelectTrigger>
+          <SelectContent>
+            {branches.map((branch) => (
+              <SelectItem key={branch.id} value={branch.id}>
+                {branch.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading menu...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Global</TableHead>
+                <TableHead className="text-right">Menu price</TableHead>
+                <TableHead className="w-40">Branch price</TableHead>
+                <TableHead className="text-right">Available at branch</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {menuItems.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell>
+                    <Badge variant={item.available ? "default" : "secondary"}>
+                      {item.available ? "Available" : "Unavailable"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Input
+                      key={`${selectedBranch}-${item.id}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder={item.price.toFixed(2)}
+                      defaultValue={item.branch_menu[0]?.price ?? ""}
+                      onBlur={(e) => setPrice(item, e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Switch
+                      checked={item.branch_menu[0]?.available ?? true}
+                      disabled={!item.available}
+                      onCheckedChange={(checked) => setAvailable(item, checked)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminBranchMenu;
@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BranchDialog, EditableBranch } from "@/components/admin/BranchDialog";
+import { useToast } from "@/hooks/use-toast";
+import { WEEKDAYS, formatTime } from "@/lib/branch-hours";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+interface Branch extends EditableBranch {
+  total_staff: number | null;
+}
+
+const AdminBranches = () => {
+  const { toast } = useToast();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [deletingBranch, setDeletingBranch] = useState<Branch | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  const fetchBranches = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("branches")
+        .select("*, branch_hours(weekday, opens_at, closes_at)")
+        .order("name");
+
+      if (error) throw error;
+      setBranches(data || []);
+    } catch (error) {
+      console.error("Error fetching branches:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (branch: Branch | null) => {
+    setEditingBranch(branch);
+    setDialogOpen(true);
+  };
+
+  const deleteBranch = async () => {
+    if (!deletingBranch) return;
+
+    try {
+      const { error } = await supabase
+        .from("branches")
+        .delete()
+        .eq("id", deletingBranch.id);
+
+      if (error) throw error;
+
+      toast({ title: "Branch deleted", description: deletingBranch.name });
+      fetchBranches();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setDeletingBranch(null);
+    }
+  };
+
+  const today = new Date().getDay();
+
+  const todaysHours = (branch: Branch) => {
+    const day = branch.branch_hours.find((h) => h.weekday === today);
+    return day ? `${formatTime(day.opens_at)} – ${formatTime(day.closes_at)}` : "Closed";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Branches</CardTitle>
+          <CardDescription>Locations customers can order from.</CardDescription>
+        </div>
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Branch
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading branches...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>{WEEKDAYS[today]}</TableHead>
+                <TableHead className="text-right">Staff</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {branches.map((branch) => (
+                <TableRow key={branch.id}>
+                  <TableCell className="font-medium">{branch.name}</TableCell>
+                  <TableCell>{branch.address}</TableCell>
+                  <TableCell>
+                    <p>{branch.phone}</p>
+                    {branch.email && <p className="text-muted-foreground">{branch.email}</p>}
+                  </TableCell>
+                  <TableCell>{todaysHours(branch)}</TableCell>
+                  <TableCell className="text-right">{branch.total_staff ?? 0}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="icon" variant="outline" onClick={() => openEditor(branch)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" onClick={() => setDeletingBranch(branch)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <BranchDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        branch={editingBranch}
+        onSaved={fetchBranches}
+      />
+
+      <AlertDialog open={!!deletingBranch} onOpenChange={(open) => !open && setDeletingBranch(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingBranch?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Staff assigned to this branch will become unassigned. Past orders are kept but lose their branch.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteBranch}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AdminBranches;
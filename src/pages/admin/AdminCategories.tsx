@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CategoryDialog, EditableCategory } from "@/components/admin/CategoryDialog";
+import { useToast } from "@/hooks/use-toast";
+import { GripVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface Category extends EditableCategory {
+  sort_order: number;
+  menu: Array<{
+    id: string;
+  }>;
+}
+
+const AdminCategories = () => {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // The saved order, put back if a drag ends without a drop
+  const [orderBeforeDrag, setOrderBeforeDrag] = useState<Category[]>([]);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("menu_categories")
+        .select("*, menu(id)")
+        .order("sort_order");
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (category: Category | null) => {
+    setEditingCategory(category);
+    setDialogOpen(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (!draggedId || draggedId === targetId) return;
+
+    setCategories((prev) => {
+      const from = prev.findIndex((c) => c.id === draggedId);
+      const to = prev.findIndex((c) => c.id === targetId);
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleDragStart = (categoryId: string) => {
+    setDraggedId(categoryId);
+    setOrderBeforeDrag(categories);
+  };
+
+  // Rows move while dragging, so a drag dropped outside a row or cancelled with
+  // Esc has to undo what it showed, as only a drop saves the new order
+  const handleDragEnd = (e: React.DragEvent) => {
+    setDraggedId(null);
+    if (e.dataTransfer.dropEffect === "none") {
+      setCategories(orderBeforeDrag);
+    }
+  };
+
+  const handleDrop = async () => {
+    setDraggedId(null);
+
+    try {
+      const { error } = await supabase.rpc("reorder_menu_categories", {
+        _category_ids: categories.map((c) => c.id),
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Category order saved" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving order",
+        description: (error as Error).message,
+      });
+      fetchCategories();
+    }
+  };
+
+  const deleteCategory = async (category: Category) => {
+    try {
+      const { error } = await supabase
+        .from("menu_categories")
+        .delete()
+        .eq("id", category.id);
+
+      if (error) throw error;
+
+      toast({ title: "Category deleted", description: category.name });
+      fetchCategories();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const nextSortOrder = categories.reduce((max, c) => Math.max(max, c.sort_order), 0) + 1;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>
+            Drag categories to change the order of tabs on the customer menu. Empty categories are hidden from customers.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Category
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading categories...</p>
+        ) : (
+          <div className="space-y-2">
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                draggable
+                onDragStart={() => handleDragStart(category.id)}
+                onDragOver={(e) => handleDragOver(e, category.id)}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg border bg-card p-3",
+                  draggedId === category.id && "opacity-50"
+                )}
+              >
+                <GripVertical className="h-5 w-5 cursor-grab text-muted-foreground" />
+                <div className="flex-1">
+                  <p className="font-semibold flex items-center gap-2">
+                    {category.name}
+                    {category.menu.length === 0 && <Badge variant="secondary">Empty</Badge>}
+                  </p>
+                  {category.description && (
+                    <p className="text-sm text-muted-foreground">{category.description}</p>
+                  )}
+                </div>
+                <span className="text-sm text-muted-foreground">{category.menu.length} items</span>
+                <Button size="icon" variant="outline" onClick={() => openEditor(category)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  disabled={category.menu.length > 0}
+                  onClick={() => deleteCategory(category)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CategoryDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        category={editingCategory}
+        nextSortOrder={nextSortOrder}
+        onSaved={fetchCategories}
+      />
+    </Card>
+  );
+};
+
+export default AdminCategories;
@@ -0,0 +1,197 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ComboDialog, EditableCombo } from "@/components/admin/ComboDialog";
+import { ComboSlotsDialog } from "@/components/admin/ComboSlotsDialog";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, ArchiveRestore, ListChecks, Pencil, Plus } from "lucide-react";
+
+interface Combo extends EditableCombo {
+  archived_at: string | null;
+  combo_slots: Array<{
+    name: string;
+  }>;
+}
+
+interface MenuItem {
+  id: string;
+  name: string;
+}
+
+const AdminCombos = () => {
+  const { toast } = useToast();
+  const [combos, setCombos] = useState<Combo[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingCombo, setEditingCombo] = useState<Combo | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [slotsCombo, setSlotsCombo] = useState<Combo | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCombos();
+  }, []);
+
+  const fetchCombos = async () => {
+    try {
+      const [combosRes, menuRes] = await Promise.all([
+        supabase
+          .from("combos")
+          .select("*, combo_slots(name)")
+          .order("name")
+          .order("sort_order", { referencedTable: "combo_slots" }),
+        supabase.from("menu").select("id, name").is("archived_at", null).order("name"),
+      ]);
+
+      if (combosRes.error) throw combosRes.error;
+      if (menuRes.error) throw menuRes.error;
+
+      setCombos(combosRes.data || []);
+      setMenuItems(menuRes.data || []);
+    } catch (error) {
+      console.error("Error fetching combos:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (combo: Combo | null) => {
+    setEditingCombo(combo);
+    setDialogOpen(true);
+  };
+
+  const setArchived = async (combo: Combo, archived: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("combos")
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq("id", combo.id);
+
+      if (error) throw error;
+
+      toast({
+        title: archived ? "Combo archived" : "Combo restored",
+        description: combo.name,
+      });
+
+      fetchCombos();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const visibleCombos = combos.filter((combo) => showArchived || !combo.archived_at);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Combos</CardTitle>
+          <CardDescription>Meals made of menu items, sold together at one price.</CardDescription>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived</Label>
+          </div>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Combo
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading combos...</p>
+        ) : visibleCombos.length === 0 ? (
+          <p className="text-muted-foreground">No combos yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Slots</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleCombos.map((combo) => (
+                <TableRow key={combo.id} className={combo.archived_at ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">{combo.name}</TableCell>
+                  <TableCell>
+                    {combo.combo_slots.length > 0 ? (
+                      combo.combo_slots.map((slot) => slot.name).join(" + ")
+                    ) : (
+                      <span className="text-muted-foreground">None yet, so customers can't see it</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">${combo.price.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {combo.archived_at ? (
+                      <Badge variant="outline">Archived</Badge>
+                    ) : (
+                      <Badge variant={combo.available ? "default" : "secondary"}>
+                        {combo.available ? "Available" : "Unavailable"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="icon" variant="outline" onClick={() => openEditor(combo)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" onClick={() => setSlotsCombo(combo)}>
+                      <ListChecks className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => setArchived(combo, !combo.archived_at)}
+                    >
+                      {combo.archived_at ? (
+                        <ArchiveRestore className="h-4 w-4" />
+                      ) : (
+                        <Archive className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ComboDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        combo={editingCombo}
+        onSaved={fetchCombos}
+      />
+
+      <ComboSlotsDialog
+        open={!!slotsCombo}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSlotsCombo(null);
+            fetchCombos();
+          }
+        }}
+        combo={slotsCombo}
+        menuItems={menuItems}
+      />
+    </Card>
+  );
+};
+
+export default AdminCombos;
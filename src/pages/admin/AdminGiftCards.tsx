@@ -0,0 +1,136 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GiftCardDetailsDialog, GiftCardSummary } from "@/components/admin/GiftCardDetailsDialog";
+import { IssueGiftCardDialog } from "@/components/admin/IssueGiftCardDialog";
+import { Plus, Search } from "lucide-react";
+import { format } from "date-fns";
+
+const AdminGiftCards = () => {
+  const [cards, setCards] = useState<GiftCardSummary[]>([]);
+  const [search, setSearch] = useState("");
+  const [selectedCard, setSelectedCard] = useState<GiftCardSummary | null>(null);
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Wait for the admin to stop typing before looking cards up
+    const timer = setTimeout(fetchCards, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchCards = async () => {
+    try {
+      let query = supabase
+        .from("gift_cards")
+        .select("*, gift_card_transactions(amount)")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      // Characters that have a meaning in PostgREST filters are dropped
+      const term = search.trim().replace(/[,()%]/g, "");
+      if (term) {
+        query = query.or(
+          `code.ilike.%${term}%,recipient_name.ilike.%${term}%,recipient_email.ilike.%${term}%`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setCards(
+        (data || []).map(({ gift_card_transactions, ...card }) => ({
+          ...card,
+          balance: gift_card_transactions.reduce((sum, t) => sum + Number(t.amount), 0),
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching gift cards:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Gift Cards</CardTitle>
+          <CardDescription>Issue cards, look up balances and void lost or refunded cards.</CardDescription>
+        </div>
+        <Button onClick={() => setIssueOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Issue Card
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by code or recipient"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading gift cards...</p>
+        ) : cards.length === 0 ? (
+          <p className="text-muted-foreground">No gift cards found</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cards.map((card) => (
+                <TableRow key={card.id} className="cursor-pointer" onClick={() => setSelectedCard(card)}>
+                  <TableCell className="font-mono font-medium">{card.code}</TableCell>
+                  <TableCell>
+                    <p>{card.recipient_name || "–"}</p>
+                    {card.recipient_email && <p className="text-muted-foreground">{card.recipient_email}</p>}
+                  </TableCell>
+                  <TableCell>{format(new Date(card.created_at), "PP")}</TableCell>
+                  <TableCell className="text-right">${card.initial_amount.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-semibold">${card.balance.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {card.voided_at ? (
+                      <Badge variant="destructive">Voided</Badge>
+                    ) : card.balance > 0 ? (
+                      <Badge variant="secondary">Active</Badge>
+                    ) : (
+                      <Badge variant="outline">Used up</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <IssueGiftCardDialog open={issueOpen} onOpenChange={setIssueOpen} onIssued={fetchCards} />
+
+      <GiftCardDetailsDialog
+        open={!!selectedCard}
+        onOpenChange={(open) => !open && setSelectedCard(null)}
+        card={selectedCard}
+        onVoided={fetchCards}
+      />
+    </Card>
+  );
+};
+
+export default AdminGiftCards;
@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MenuItemDialog, EditableMenuItem } from "@/components/admin/MenuItemDialog";
+import { ModifierGroupsDialog } from "@/components/admin/ModifierGroupsDialog";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, ArchiveRestore, Pencil, Plus, SlidersHorizontal } from "lucide-react";
+
+interface MenuItem extends EditableMenuItem {
+  archived_at: string | null;
+  menu_categories: {
+    name: string;
+  } | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+const AdminMenu = () => {
+  const { toast } = useToast();
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [modifiersItem, setModifiersItem] = useState<MenuItem | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchMenu();
+  }, []);
+
+  const fetchMenu = async () => {
+    try {
+      const [menuRes, categoriesRes] = await Promise.all([
+        supabase
+          .from("menu")
+          .select("*, menu_categories(name)")
+          .order("name"),
+        supabase.from("menu_categories").select("id, name").order("sort_order"),
+      ]);
+
+      if (menuRes.error) throw menuRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+
+      setMenuItems(menuRes.data || []);
+      setCategories(categoriesRes.data || []);
+    } catch (error) {
+      console.error("Error fetching menu:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (item: MenuItem | null) => {
+    setEditingItem(item);
+    setDialogOpen(true);
+  };
+
+  const setArchived = async (item: MenuItem, archived: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("menu")
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq("id", item.id);
+
+      if (error) throw error;
+
+      toast({
+        title: archived ? "Menu item archived" : "Menu item restored",
+        description: item.name,
+      });
+
+      fetchMenu();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const visibleItems = menuItems.filter((item) => showArchived || !item.archived_at);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Menu</CardTitle>
+          <CardDescription>Items currently on the menu across all branches.</CardDescription>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived</Label>
+          </div>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Item
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading menu...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleItems.map((item) => (
+                <TableRow key={item.id} className={item.archived_at ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell>{item.menu_categories?.name || "—"}</TableCell>
+                  <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {item.archived_at ? (
+                      <Badge variant="outline">Archived</Badge>
+                    ) : (
+                      <Badge variant={item.available ? "default" : "secondary"}>
+                        {item.available ? "Available" : "Unavailable"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="icon" variant="outline" onClick={() => openEditor(item)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" onClick={() => setModifiersItem(item)}>
+                      <SlidersHorizontal className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => setArchived(item, !item.archived_at)}
+                    >
+                      {item.archived_at ? (
+                        <ArchiveRestore className="h-4 w-4" />
+                      ) : (
+                        <Archive className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <MenuItemDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        item={editingItem}
+        categories={categories}
+        onSaved={fetchMenu}
+      />
+
+      <ModifierGroupsDialog
+        open={!!modifiersItem}
+        onOpenChange={(open) => !open && setModifiersItem(null)}
+        item={modifiersItem}
+      />
+    </Card>
+  );
+};
+
+export default AdminMenu;
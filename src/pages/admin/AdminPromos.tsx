@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PromoCodeDialog } from "@/components/admin/PromoCodeDialog";
+import { useToast } from "@/hooks/use-toast";
+import { PromoCode, promoSummary } from "@/lib/promo";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface Usage {
+  promo_code_id: string;
+  uses: number;
+  discount_total: number;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const AdminPromos = () => {
+  const { toast } = useToast();
+  const [promos, setPromos] = useState<PromoCode[]>([]);
+  const [usage, setUsage] = useState<Usage[]>([]);
+  const [menuItems, setMenuItems] = useState<Option[]>([]);
+  const [branches, setBranches] = useState<Option[]>([]);
+  const [editingPromo, setEditingPromo] = useState<PromoCode | null>(null);
+  const [deletingPromo, setDeletingPromo] = useState<PromoCode | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPromos();
+    fetchOptions();
+  }, []);
+
+  const fetchPromos = async () => {
+    try {
+      const [promosRes, usageRes] = await Promise.all([
+        supabase.from("promo_codes").select("*").order("created_at", { ascending: false }),
+        supabase.rpc("promo_code_usage"),
+      ]);
+
+      if (promosRes.error) throw promosRes.error;
+      if (usageRes.error) throw usageRes.error;
+      setPromos(promosRes.data || []);
+      setUsage(usageRes.data || []);
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    try {
+      const [menuRes, branchesRes] = await Promise.all([
+        supabase.from("menu").select("id, name").order("name"),
+        supabase.from("branches").select("id, name").order("name"),
+      ]);
+
+      if (menuRes.error) throw menuRes.error;
+      if (branchesRes.error) throw branchesRes.error;
+      setMenuItems(menuRes.data || []);
+      setBranches(branchesRes.data || []);
+    } catch (error) {
+      console.error("Error fetching menu and branches:", error);
+    }
+  };
+
+  const openEditor = (promo: PromoCode | null) => {
+    setEditingPromo(promo);
+    setDialogOpen(true);
+  };
+
+  const setActive = async (promo: PromoCode, active: boolean) => {
+    try {
+      const { error } = await supabase.from("promo_codes").update({ active }).eq("id", promo.id);
+      if (error) throw error;
+      setPromos((prev) => prev.map((p) => (p.id === promo.id ? { ...p, active } : p)));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const deletePromo = async () => {
+    if (!deletingPromo) return;
+
+    try {
+      const { error } = await supabase.from("promo_codes").delete().eq("id", deletingPromo.id);
+      if (error) throw error;
+
+      toast({ title: "Promo code deleted", description: deletingPromo.code });
+      fetchPromos();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setDeletingPromo(null);
+    }
+  };
+
+  const usageFor = (promo: PromoCode) => usage.find((u) => u.promo_code_id === promo.id);
+
+  const restrictions = (promo: PromoCode) => {
+    const parts: string[] = [];
+    if (promo.starts_at || promo.ends_at) {
+      parts.push(
+        `${promo.starts_at ? format(new Date(promo.starts_at), "PP") : "Now"} – ${
+          promo.ends_at ? format(new Date(promo.ends_at), "PP") : "no end"
+        }`
+      );
+    }
+    if (promo.branch_ids) {
+      parts.push(branches.filter((b) => promo.branch_ids.includes(b.id)).map((b) => b.name).join(", "));
+    }
+    if (promo.order_types) {
+      parts.push(promo.order_types.map((type) => type.replace("_", " ")).join(", "));
+    }
+    if (promo.min_subtotal > 0) {
+      parts.push(`Min $${promo.min_subtotal.toFixed(2)}`);
+    }
+    if (promo.max_uses_per_user) {
+      parts.push(`${promo.max_uses_per_user} per customer`);
+    }
+    return parts;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Promo Codes</CardTitle>
+          <CardDescription>Discount codes customers can enter at checkout.</CardDescription>
+        </div>
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Code
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading promo codes...</p>
+        ) : promos.length === 0 ? (
+          <p className="text-muted-foreground">No promo codes yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Restrictions</TableHead>
+                <TableHead className="text-right">Uses</TableHead>
+                <TableHead className="text-right">Given</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promos.map((promo) => {
+                const used = usageFor(promo);
+                return (
+                  <TableRow key={promo.id}>
+                    <TableCell>
+                      <p className="font-mono font-medium">{promo.code}</p>
+                      {promo.description && <p className="text-muted-foreground">{promo.description}</p>}
+                    </TableCell>
+                    <TableCell>
+                      {promoSummary(promo, menuItems.find((item) => item.id === promo.buy_menu_id)?.name)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground capitalize">
+                      {restrictions(promo).map((part) => <p key={part}>{part}</p>)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {used?.uses ?? 0}
+                      {promo.max_uses && ` / ${promo.max_uses}`}
+                    </TableCell>
+                    <TableCell className="text-right">${Number(used?.discount_total ?? 0).toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Switch checked={promo.active} onCheckedChange={(checked) => setActive(promo, checked)} />
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button size="icon" variant="outline" onClick={() => openEditor(promo)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {/* Used codes stay for the order history; switch them off instead */}
+                      {!used && (
+                        <Button size="icon" variant="outline" onClick={() => setDeletingPromo(promo)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <PromoCodeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        promo={editingPromo}
+        menuItems={menuItems}
+        branches={branches}
+        onSaved={fetchPromos}
+      />
+
+      <AlertDialog open={!!deletingPromo} onOpenChange={(open) => !open && setDeletingPromo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingPromo?.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Customers will no longer be able to use this code.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deletePromo}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AdminPromos;
@@ -0,0 +1,127 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+type AppRole = "admin" | "staff" | "customer";
+
+const ROLES: AppRole[] = ["admin", "staff", "customer"];
+
+interface Account {
+  id: string;
+  name: string;
+  email: string | null;
+  roles: AppRole[];
+}
+
+const AdminRoles = () => {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const fetchAccounts = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      setCurrentUserId(session?.user.id || "");
+
+      const [profilesRes, rolesRes] = await Promise.all([
+        supabase.from("profiles").select("id, name, email").order("name"),
+        supabase.from("user_roles").select("user_id, role"),
+      ]);
+
+      if (profilesRes.error) throw profilesRes.error;
+      if (rolesRes.error) throw rolesRes.error;
+
+      setAccounts(
+        (profilesRes.data || []).map((profile) => ({
+          ...profile,
+          roles: (rolesRes.data || [])
+            .filter((r) => r.user_id === profile.id)
+            .map((r) => r.role),
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRole = async (account: Account, role: AppRole, granted: boolean) => {
+    try {
+      const { error } = granted
+        ? await supabase.from("user_roles").insert({ user_id: account.id, role })
+        : await supabase.from("user_roles").delete().eq("user_id", account.id).eq("role", role);
+
+      if (error) throw error;
+
+      toast({
+        title: granted ? "Role granted" : "Role revoked",
+        description: `${account.name || account.email}: ${role}`,
+      });
+
+      fetchAccounts();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles</CardTitle>
+        <CardDescription>Grant or revoke application roles for each account.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading accounts...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                {ROLES.map((role) => (
+                  <TableHead key={role} className="capitalize text-center">
+                    {role}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map((account) => (
+                <TableRow key={account.id}>
+                  <TableCell className="font-medium">{account.name || "—"}</TableCell>
+                  <TableCell>{account.email}</TableCell>
+                  {ROLES.map((role) => (
+                    <TableCell key={role} className="text-center">
+                      <Checkbox
+                        checked={account.roles.includes(role)}
+                        // Admins cannot lock themselves out of the console
+                        disabled={role === "admin" && account.id === currentUserId}
+                        onCheckedChange={(checked) => toggleRole(account, role, checked === true)}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminRoles;
@@ -0,0 +1,174 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StaffDialog, EditableStaffMember } from "@/components/admin/StaffDialog";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, UserCheck, UserPlus, UserX } from "lucide-react";
+import { format } from "date-fns";
+
+interface StaffMember extends EditableStaffMember {
+  deactivated_at: string | null;
+  branches: {
+    name: string;
+  } | null;
+}
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+const AdminStaff = () => {
+  const { toast } = useToast();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      const [staffRes, branchesRes] = await Promise.all([
+        supabase
+          .from("staff")
+          .select(`
+            *,
+            profiles(name, email),
+            branches(name)
+          `)
+          .order("hired_date", { ascending: false }),
+        supabase.from("branches").select("id, name").order("name"),
+      ]);
+
+      if (staffRes.error) throw staffRes.error;
+      if (branchesRes.error) throw branchesRes.error;
+
+      setStaff(staffRes.data || []);
+      setBranches(branchesRes.data || []);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (member: StaffMember | null) => {
+    setEditingMember(member);
+    setDialogOpen(true);
+  };
+
+  const setActive = async (member: StaffMember, active: boolean) => {
+    try {
+      const { error } = await supabase.rpc("set_staff_active", {
+        _staff_id: member.id,
+        _active: active,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: active ? "Staff member reactivated" : "Staff member deactivated",
+        description: member.profiles?.name,
+      });
+
+      fetchStaff();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Staff</CardTitle>
+          <CardDescription>Employees and the branch they work at.</CardDescription>
+        </div>
+        <Button onClick={() => openEditor(null)}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite Staff
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading staff...</p>
+        ) : staff.length === 0 ? (
+          <p className="text-muted-foreground">No staff members yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead className="text-right">Hours / week</TableHead>
+                <TableHead className="text-right">Salary</TableHead>
+                <TableHead>Hired</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.map((member) => (
+                <TableRow key={member.id} className={member.deactivated_at ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">{member.profiles?.name || "—"}</TableCell>
+                  <TableCell>{member.profiles?.email}</TableCell>
+                  <TableCell>{member.branches?.name || "Unassigned"}</TableCell>
+                  <TableCell className="text-right">{member.working_hours ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {member.salary != null ? `$${member.salary.toFixed(2)}` : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {member.hired_date ? format(new Date(member.hired_date), "PP") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={member.deactivated_at ? "outline" : "default"}>
+                      {member.deactivated_at ? "Inactive" : "Active"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="icon" variant="outline" onClick={() => openEditor(member)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => setActive(member, !!member.deactivated_at)}
+                    >
+                      {member.deactivated_at ? (
+                        <UserCheck className="h-4 w-4" />
+                      ) : (
+                        <UserX className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <StaffDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        member={editingMember}
+        branches={branches}
+        onSaved={fetchStaff}
+      />
+    </Card>
+  );
+};
+
+export default AdminStaff;
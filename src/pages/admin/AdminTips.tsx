@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { addDays, endOfMonth, format, startOfMonth } from "date-fns";
+
+interface TipRow {
+  branch_id: string;
+  branch_name: string;
+  staff_id: string | null;
+  staff_name: string | null;
+  order_count: number;
+  tips_total: number;
+}
+
+interface BranchTips {
+  branch_id: string;
+  branch_name: string;
+  rows: TipRow[];
+  order_count: number;
+  tips_total: number;
+}
+
+const AdminTips = () => {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(endOfMonth(new Date()), "yyyy-MM-dd"));
+  const [rows, setRows] = useState<TipRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (from && to) {
+      fetchReport();
+    }
+  }, [from, to]);
+
+  const fetchReport = async () => {
+    try {
+      // The end date is inclusive, so the range runs up to the start of the next day
+      const { data, error } = await supabase.rpc("tip_report", {
+        _from: new Date(`${from}T00:00:00`).toISOString(),
+        _to: addDays(new Date(`${to}T00:00:00`), 1).toISOString(),
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error("Error fetching tip report:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const branches = rows.reduce<BranchTips[]>((groups, row) => {
+    let group = groups.find((g) => g.branch_id === row.branch_id);
+    if (!group) {
+      group = { branch_id: row.branch_id, branch_name: row.branch_name, rows: [], order_count: 0, tips_total: 0 };
+      groups.push(group);
+    }
+    group.rows.push(row);
+    group.order_count += Number(row.order_count);
+    group.tips_total += Number(row.tips_total);
+    return groups;
+  }, []);
+
+  const grandTotal = branches.reduce((sum, b) => sum + b.tips_total, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Tips</CardTitle>
+          <CardDescription>
+            Tips on delivered orders, by branch and the staff member who completed them.
+          </CardDescription>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="tips-from">From</Label>
+            <Input id="tips-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tips-to">To</Label>
+            <Input id="tips-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="animate-pulse text-muted-foreground">Loading tips...</p>
+        ) : branches.length === 0 ? (
+          <p className="text-muted-foreground">No tipped orders in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Staff member</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                <TableHead className="text-right">Tips</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {branches.map((branch) => [
+                <TableRow key={branch.branch_id} className="bg-muted/50 hover:bg-muted/50">
+                  <TableCell className="font-semibold">{branch.branch_name}</TableCell>
+                  <TableCell className="text-right font-semibold">{branch.order_count}</TableCell>
+                  <TableCell className="text-right font-semibold">${branch.tips_total.toFixed(2)}</TableCell>
+                </TableRow>,
+                ...branch.rows.map((row) => (
+                  <TableRow key={`${branch.branch_id}-${row.staff_id ?? "none"}`}>
+                    <TableCell className="pl-8">{row.staff_name || "Unattributed"}</TableCell>
+                    <TableCell className="text-right">{row.order_count}</TableCell>
+                    <TableCell className="text-right">${Number(row.tips_total).toFixed(2)}</TableCell>
+                  </TableRow>
+                )),
+              ])}
+              <TableRow>
+                <TableCell className="font-bold">Total</TableCell>
+                <TableCell />
+                <TableCell className="text-right font-bold">${grandTotal.toFixed(2)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminTips;
@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InviteStaffRequest {
+  email: string;
+  name: string;
+  branch_id: string;
+  salary: number | null;
+  working_hours: number | null;
+  hired_date: string | null;
+  redirect_to?: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+    // Act as the caller to confirm they are an admin
+    const callerClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+
+    const { data: { user } } = await callerClient.auth.getUser();
+    if (!user) {
+      return json({ error: "Not authenticated" }, 401);
+    }
+
+    const { data: isAdmin } = await callerClient.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (!isAdmin) {
+      return json({ error: "Only admins can invite staff" }, 403);
+    }
+
+    const body: InviteStaffRequest = await req.json();
+    const email = body.email?.trim().toLowerCase();
+    const name = body.name?.trim();
+
+    if (!email || !name || !body.branch_id) {
+      return json({ error: "Email, name and branch are required" }, 400);
+    }
+
+    // Inviting and provisioning needs the service role
+    const adminClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: existing } = await adminClient
+      .from("profiles")
+      .select("id")
+      .eq("email", email)
+      .maybeSingle();
+
+    let userId = existing?.id;
+
+    if (userId) {
+      // Promote an existing customer account instead of sending a new invite
+      const { error } = await adminClient
+        .from("profiles")
+        .update({ user_type: "staff" })
+        .eq("id", userId);
+      if (error) throw error;
+    } else {
+      const { data, error } = await adminClient.auth.admin.inviteUserByEmail(email, {
+        data: { name, user_type: "staff" },
+        redirectTo: body.redirect_to,
+      });
+      if (error) throw error;
+      userId = data.user.id;
+    }
+
+    const { error: roleError } = await adminClient
+      .from("user_roles")
+      .upsert({ user_id: userId, role: "staff" }, { onConflict: "user_id,role", ignoreDuplicates: true });
+    if (roleError) throw roleError;
+
+    const { data: staff, error: staffError } = await adminClient
+      .from("staff")
+      .upsert(
+        {
+          user_id: userId,
+          branch_id: body.branch_id,
+          salary: body.salary,
+          working_hours: body.working_hours,
+          hired_date: body.hired_date ?? undefined,
+          deactivated_at: null,
+        },
+        { onConflict: "user_id" },
+      )
+      .select("id")
+      .single();
+    if (staffError) throw staffError;
+
+    return json({ user_id: userId, staff_id: staff.id, invited: !existing });
+  } catch (error) {
+    console.error("Error inviting staff:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,15 @@
+-- Admins need to see every account to manage roles from the admin console
+CREATE POLICY "Admins can view all roles"
+ON public.user_roles
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view all staff"
+ON public.staff
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,42 @@
+-- Archived items stay referenced by past orders but disappear from the menu
+ALTER TABLE public.menu ADD COLUMN archived_at timestamptz;
+
+-- Storage public URLs can exceed the original 255 character limit
+ALTER TABLE public.menu ALTER COLUMN photo_url TYPE text;
+
+-- RLS: Only admins can create menu items
+CREATE POLICY "Admins can insert menu items"
+ON public.menu
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS: Only admins can update menu items
+CREATE POLICY "Admins can update menu items"
+ON public.menu
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Public bucket for menu photos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('menu-photos', 'menu-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view menu photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'menu-photos');
+
+CREATE POLICY "Admins can upload menu photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'menu-photos' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update menu photos"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'menu-photos' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete menu photos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'menu-photos' AND public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,46 @@
+-- Persisted display order for menu categories
+ALTER TABLE public.menu_categories ADD COLUMN sort_order int NOT NULL DEFAULT 0;
+
+-- Keep the current order for existing categories
+UPDATE public.menu_categories mc
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY created_at, name) AS position
+  FROM public.menu_categories
+) ordered
+WHERE mc.id = ordered.id;
+
+-- RLS: Only admins can manage menu categories
+CREATE POLICY "Admins can insert menu categories"
+ON public.menu_categories
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update menu categories"
+ON public.menu_categories
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete menu categories"
+ON public.menu_categories
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Reorder all categories in a single statement so the order never ends up half-saved
+CREATE OR REPLACE FUNCTION public.reorder_menu_categories(_category_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reorder menu categories';
+  END IF;
+
+  UPDATE public.menu_categories mc
+  SET sort_order = ids.position
+  FROM unnest(_category_ids) WITH ORDINALITY AS ids(id, position)
+  WHERE mc.id = ids.id;
+END;
+$$;
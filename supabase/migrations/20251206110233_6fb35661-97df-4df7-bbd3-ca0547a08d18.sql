@@ -0,0 +1,91 @@
+-- Contact details for each branch
+ALTER TABLE public.branches ADD COLUMN email varchar(100);
+
+-- Opening hours per weekday (0 = Sunday ... 6 = Saturday, matching extract(dow))
+CREATE TABLE public.branch_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE NOT NULL,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  opens_at time NOT NULL,
+  closes_at time NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, weekday),
+  CHECK (closes_at > opens_at)
+);
+
+ALTER TABLE public.branch_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view branch hours"
+ON public.branch_hours
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert branch hours"
+ON public.branch_hours
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update branch hours"
+ON public.branch_hours
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete branch hours"
+ON public.branch_hours
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS: Only admins can manage branches
+CREATE POLICY "Admins can insert branches"
+ON public.branches
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update branches"
+ON public.branches
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete branches"
+ON public.branches
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Keep branches.total_staff in sync with the staff table
+CREATE OR REPLACE FUNCTION public.refresh_branch_total_staff()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.branch_id IS NOT NULL THEN
+    UPDATE public.branches
+    SET total_staff = (SELECT count(*) FROM public.staff WHERE branch_id = OLD.branch_id)
+    WHERE id = OLD.branch_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.branch_id IS NOT NULL THEN
+    UPDATE public.branches
+    SET total_staff = (SELECT count(*) FROM public.staff WHERE branch_id = NEW.branch_id)
+    WHERE id = NEW.branch_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_branch_total_staff
+  AFTER INSERT OR UPDATE OF branch_id OR DELETE ON public.staff
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_branch_total_staff();
+
+-- Backfill the counts for existing branches
+UPDATE public.branches b
+SET total_staff = (SELECT count(*) FROM public.staff s WHERE s.branch_id = b.id);
+
+-- Seed default opening hours (11:00-22:00 every day) for existing branches
+INSERT INTO public.branch_hours (branch_id, weekday, opens_at, closes_at)
+SELECT b.id, d.weekday, '11:00', '22:00'
+FROM public.branches b
+CROSS JOIN generate_series(0, 6) AS d(weekday);
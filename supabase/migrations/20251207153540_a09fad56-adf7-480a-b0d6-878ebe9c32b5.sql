@@ -0,0 +1,84 @@
+-- Deactivated staff keep their record (and order history) but lose dashboard access
+ALTER TABLE public.staff ADD COLUMN deactivated_at timestamptz;
+
+-- RLS: Only admins can reassign staff or change their pay and hours
+CREATE POLICY "Admins can update staff"
+ON public.staff
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Only active staff count towards a branch's headcount
+CREATE OR REPLACE FUNCTION public.refresh_branch_total_staff()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.branch_id IS NOT NULL THEN
+    UPDATE public.branches
+    SET total_staff = (
+      SELECT count(*) FROM public.staff
+      WHERE branch_id = OLD.branch_id AND deactivated_at IS NULL
+    )
+    WHERE id = OLD.branch_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.branch_id IS NOT NULL THEN
+    UPDATE public.branches
+    SET total_staff = (
+      SELECT count(*) FROM public.staff
+      WHERE branch_id = NEW.branch_id AND deactivated_at IS NULL
+    )
+    WHERE id = NEW.branch_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_branch_total_staff ON public.staff;
+
+CREATE TRIGGER refresh_branch_total_staff
+  AFTER INSERT OR UPDATE OF branch_id, deactivated_at OR DELETE ON public.staff
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_branch_total_staff();
+
+-- Deactivate or reactivate a staff member: toggles the staff role and the
+-- profile type together so Menu.tsx and Staff.tsx agree on where to send them
+CREATE OR REPLACE FUNCTION public.set_staff_active(_staff_id uuid, _active boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change staff status';
+  END IF;
+
+  UPDATE public.staff
+  SET deactivated_at = CASE WHEN _active THEN NULL ELSE now() END
+  WHERE id = _staff_id
+  RETURNING user_id INTO _user_id;
+
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  IF _active THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, 'staff')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  ELSE
+    DELETE FROM public.user_roles
+    WHERE user_id = _user_id AND role = 'staff';
+  END IF;
+
+  UPDATE public.profiles
+  SET user_type = CASE WHEN _active THEN 'staff'::user_type ELSE 'customer'::user_type END
+  WHERE id = _user_id;
+END;
+$$;
@@ -0,0 +1,77 @@
+-- Per-branch overrides for menu items; no row means the branch follows the global menu
+CREATE TABLE public.branch_menu (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE NOT NULL,
+  menu_id uuid REFERENCES public.menu(id) ON DELETE CASCADE NOT NULL,
+  available boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, menu_id)
+);
+
+ALTER TABLE public.branch_menu ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view branch menu"
+ON public.branch_menu
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert branch menu"
+ON public.branch_menu
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update branch menu"
+ON public.branch_menu
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete branch menu"
+ON public.branch_menu
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- An item is sold at a branch when it is globally available, not archived
+-- and not switched off for that branch
+CREATE OR REPLACE FUNCTION public.is_available_at_branch(_menu_id uuid, _branch_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.menu m
+    LEFT JOIN public.branch_menu bm
+      ON bm.menu_id = m.id AND bm.branch_id = _branch_id
+    WHERE m.id = _menu_id
+      AND COALESCE(m.available, true)
+      AND m.archived_at IS NULL
+      AND COALESCE(bm.available, true)
+  )
+$$;
+
+-- Refuse order lines for items the order's branch is not selling
+CREATE OR REPLACE FUNCTION public.check_ordered_item_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _branch_id uuid;
+BEGIN
+  SELECT branch_id INTO _branch_id FROM public.orders WHERE id = NEW.order_id;
+
+  IF NOT public.is_available_at_branch(NEW.menu_id, _branch_id) THEN
+    RAISE EXCEPTION 'Menu item % is not available at this branch', NEW.menu_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_ordered_item_available
+  BEFORE INSERT ON public.ordered_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_ordered_item_available();
@@ -0,0 +1,38 @@
+-- Branch-specific price; NULL means the branch charges the menu price
+ALTER TABLE public.branch_menu ADD COLUMN price decimal(10,2) CHECK (price >= 0);
+
+-- Price an item sells for at a branch
+CREATE OR REPLACE FUNCTION public.branch_price(_menu_id uuid, _branch_id uuid)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(bm.price, m.price)
+  FROM public.menu m
+  LEFT JOIN public.branch_menu bm
+    ON bm.menu_id = m.id AND bm.branch_id = _branch_id
+  WHERE m.id = _menu_id
+$$;
+
+-- Order lines are always charged at the branch's current price, whatever the client sent
+CREATE OR REPLACE FUNCTION public.set_ordered_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.price_each := public.branch_price(
+    NEW.menu_id,
+    (SELECT branch_id FROM public.orders WHERE id = NEW.order_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_ordered_item_price
+  BEFORE INSERT ON public.ordered_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ordered_item_price();
@@ -0,0 +1,165 @@
+-- Modifier groups attached to a menu item (e.g. "Size", "Add-ons", "Remove")
+CREATE TABLE public.modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_id uuid REFERENCES public.menu(id) ON DELETE CASCADE NOT NULL,
+  name varchar(100) NOT NULL,
+  min_selections int NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+  max_selections int NOT NULL DEFAULT 1 CHECK (max_selections >= 1),
+  sort_order int NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (max_selections >= min_selections)
+);
+
+-- Choices within a group with their price difference
+CREATE TABLE public.modifier_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid REFERENCES public.modifier_groups(id) ON DELETE CASCADE NOT NULL,
+  name varchar(100) NOT NULL,
+  price_delta decimal(10,2) NOT NULL DEFAULT 0,
+  sort_order int NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Modifiers chosen for an order line, snapshotted so menu edits don't rewrite history
+CREATE TABLE public.ordered_item_modifiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ordered_item_id uuid REFERENCES public.ordered_items(id) ON DELETE CASCADE NOT NULL,
+  modifier_option_id uuid REFERENCES public.modifier_options(id) ON DELETE SET NULL,
+  name varchar(100) NOT NULL,
+  price_delta decimal(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ordered_item_modifiers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for modifier_groups (public read, admin write)
+CREATE POLICY "Anyone can view modifier groups"
+ON public.modifier_groups
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert modifier groups"
+ON public.modifier_groups
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update modifier groups"
+ON public.modifier_groups
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete modifier groups"
+ON public.modifier_groups
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for modifier_options (public read, admin write)
+CREATE POLICY "Anyone can view modifier options"
+ON public.modifier_options
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert modifier options"
+ON public.modifier_options
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update modifier options"
+ON public.modifier_options
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete modifier options"
+ON public.modifier_options
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for ordered_item_modifiers (mirror ordered_items)
+CREATE POLICY "Users can view modifiers in their orders"
+ON public.ordered_item_modifiers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.ordered_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.id = ordered_item_modifiers.ordered_item_id
+    AND o.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can view modifiers for their branch orders"
+ON public.ordered_item_modifiers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.ordered_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.id = ordered_item_modifiers.ordered_item_id
+    AND o.branch_id = public.get_user_branch_id(auth.uid())
+  )
+);
+
+CREATE POLICY "Users can insert modifiers to their own orders"
+ON public.ordered_item_modifiers
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.ordered_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.id = ordered_item_modifiers.ordered_item_id
+    AND o.user_id = auth.uid()
+  )
+);
+
+-- Snapshot the option's name and price, and make sure it belongs to the line's item
+CREATE OR REPLACE FUNCTION public.set_ordered_item_modifier()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT mo.name, mo.price_delta
+  INTO NEW.name, NEW.price_delta
+  FROM public.modifier_options mo
+  JOIN public.modifier_groups mg ON mg.id = mo.group_id
+  JOIN public.ordered_items oi ON oi.menu_id = mg.menu_id
+  WHERE mo.id = NEW.modifier_option_id
+    AND oi.id = NEW.ordered_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Modifier % does not apply to this item', NEW.modifier_option_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_ordered_item_modifier
+  BEFORE INSERT ON public.ordered_item_modifiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ordered_item_modifier();
+
+-- price_each is the unit price including modifiers
+CREATE OR REPLACE FUNCTION public.add_modifier_to_price_each()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.ordered_items
+  SET price_each = price_each + NEW.price_delta
+  WHERE id = NEW.ordered_item_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER add_modifier_to_price_each
+  AFTER INSERT ON public.ordered_item_modifiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_modifier_to_price_each();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE ordered_item_modifiers;
@@ -0,0 +1,65 @@
+-- Tips can never be negative
+ALTER TABLE public.orders ADD CONSTRAINT orders_tip_check CHECK (tip >= 0);
+
+-- Staff member who completed the order; tips are paid out to them
+ALTER TABLE public.orders ADD COLUMN completed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_order_completed_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'delivered'
+    AND OLD.status IS DISTINCT FROM 'delivered'
+    AND public.has_role(auth.uid(), 'staff') THEN
+    NEW.completed_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_completed_by
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_order_completed_by();
+
+-- Tips on delivered orders per branch and staff member for payout
+CREATE OR REPLACE FUNCTION public.tip_report(_from timestamptz, _to timestamptz)
+RETURNS TABLE (
+  branch_id uuid,
+  branch_name varchar,
+  staff_id uuid,
+  staff_name varchar,
+  order_count bigint,
+  tips_total decimal
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view tip reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.name,
+    p.id,
+    p.name,
+    count(o.id),
+    COALESCE(sum(o.tip), 0)
+  FROM public.orders o
+  JOIN public.branches b ON b.id = o.branch_id
+  LEFT JOIN public.profiles p ON p.id = o.completed_by
+  WHERE o.status = 'delivered'
+    AND o.created_at >= _from
+    AND o.created_at < _to
+  GROUP BY b.id, b.name, p.id, p.name
+  ORDER BY b.name, p.name NULLS LAST;
+END;
+$$;
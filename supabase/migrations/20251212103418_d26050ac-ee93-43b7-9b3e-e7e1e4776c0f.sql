@@ -0,0 +1,32 @@
+-- Saved cart per customer and branch so it survives refreshes and device switches.
+-- Items are stored as the client's cart lines; prices are re-checked on restore.
+CREATE TABLE public.carts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE NOT NULL,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, branch_id)
+);
+
+ALTER TABLE public.carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own carts"
+ON public.carts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own carts"
+ON public.carts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own carts"
+ON public.carts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own carts"
+ON public.carts
+FOR DELETE
+USING (auth.uid() = user_id);
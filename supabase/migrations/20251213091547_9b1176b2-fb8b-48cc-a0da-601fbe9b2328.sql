@@ -0,0 +1,119 @@
+-- Orders are placed only through place_order(), which prices everything server-side.
+-- Customers can no longer write orders or their lines directly.
+DROP POLICY "Users can create their own orders" ON public.orders;
+DROP POLICY "Users can update their own pending orders" ON public.orders;
+DROP POLICY "Users can insert items to their own orders" ON public.ordered_items;
+DROP POLICY "Users can insert modifiers to their own orders" ON public.ordered_item_modifiers;
+
+-- Places an order for the current user. _items is a JSON array of
+-- { menu_id, quantity, notes, modifier_option_ids } objects. Line prices come from
+-- the existing ordered_items triggers; tax, delivery fee and total are computed here.
+-- Returns the new order's id.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _branch_id uuid,
+  _order_type order_type,
+  _items jsonb,
+  _delivery_address text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _tip decimal DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _order_id uuid;
+  _item jsonb;
+  _item_id uuid;
+  _group record;
+  _subtotal decimal;
+  _tax decimal;
+  _delivery_fee decimal;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = _branch_id) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF _order_type = 'delivery' AND COALESCE(trim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required for delivery orders';
+  END IF;
+
+  IF COALESCE(_tip, 0) < 0 OR COALESCE(_tip, 0) > 1000 THEN
+    RAISE EXCEPTION 'Tip must be between 0 and 1000';
+  END IF;
+
+  INSERT INTO public.orders (user_id, branch_id, order_type, status, tip, total, delivery_address, notes)
+  VALUES (
+    auth.uid(),
+    _branch_id,
+    _order_type,
+    'pending',
+    round(COALESCE(_tip, 0), 2),
+    0,
+    CASE WHEN _order_type = 'delivery' THEN trim(_delivery_address) END,
+    NULLIF(left(trim(_notes), 1000), '')
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    -- price_each is filled in by set_ordered_item_price and the modifier triggers
+    INSERT INTO public.ordered_items (order_id, menu_id, quantity, price_each, notes)
+    VALUES (
+      _order_id,
+      (_item->>'menu_id')::uuid,
+      (_item->>'quantity')::int,
+      0,
+      NULLIF(left(trim(_item->>'notes'), 200), '')
+    )
+    RETURNING id INTO _item_id;
+
+    INSERT INTO public.ordered_item_modifiers (ordered_item_id, modifier_option_id, name, price_delta)
+    SELECT _item_id, option_id::uuid, '', 0
+    FROM jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb)) AS option_id;
+
+    -- Every modifier group's selection limits must be respected
+    FOR _group IN
+      SELECT mg.name, mg.min_selections, mg.max_selections, count(oim.id) AS selected
+      FROM public.modifier_groups mg
+      LEFT JOIN public.modifier_options mo ON mo.group_id = mg.id
+      LEFT JOIN public.ordered_item_modifiers oim
+        ON oim.modifier_option_id = mo.id AND oim.ordered_item_id = _item_id
+      WHERE mg.menu_id = (_item->>'menu_id')::uuid
+      GROUP BY mg.id, mg.name, mg.min_selections, mg.max_selections
+    LOOP
+      IF _group.selected < _group.min_selections OR _group.selected > _group.max_selections THEN
+        RAISE EXCEPTION 'Choose between % and % options for %',
+          _group.min_selections, _group.max_selections, _group.name;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _tax := round(_subtotal * _tax_rate, 2);
+  _delivery_fee := CASE WHEN _order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      total = _subtotal + _tax + _delivery_fee + tip
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
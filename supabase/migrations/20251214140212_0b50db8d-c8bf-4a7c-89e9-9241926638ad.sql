@@ -0,0 +1,165 @@
+-- Key sent with each checkout attempt so retried submissions do not create duplicates
+ALTER TABLE public.orders ADD COLUMN idempotency_key uuid;
+ALTER TABLE public.orders ADD CONSTRAINT orders_user_id_idempotency_key_key UNIQUE (user_id, idempotency_key);
+
+-- Orders left without any items by the old two-step checkout
+DELETE FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.ordered_items oi WHERE oi.order_id = o.id);
+
+-- An order must have items by the time its transaction commits
+CREATE OR REPLACE FUNCTION public.check_order_has_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.orders WHERE id = NEW.id)
+    AND NOT EXISTS (SELECT 1 FROM public.ordered_items WHERE order_id = NEW.id) THEN
+    RAISE EXCEPTION 'Order % has no items', NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_order_has_items
+  AFTER INSERT ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_order_has_items();
+
+DROP FUNCTION public.place_order(uuid, order_type, jsonb, text, text, decimal);
+
+-- Places an order for the current user. _items is a JSON array of
+-- { menu_id, quantity, notes, modifier_option_ids } objects. Line prices come from
+-- the existing ordered_items triggers; tax, delivery fee and total are computed here.
+-- Retrying with the same _idempotency_key returns the order the first call created.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _branch_id uuid,
+  _order_type order_type,
+  _items jsonb,
+  _delivery_address text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _tip decimal DEFAULT 0,
+  _idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _order_id uuid;
+  _item jsonb;
+  _item_id uuid;
+  _group record;
+  _subtotal decimal;
+  _tax decimal;
+  _delivery_fee decimal;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = _branch_id) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF _order_type = 'delivery' AND COALESCE(trim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required for delivery orders';
+  END IF;
+
+  IF COALESCE(_tip, 0) < 0 OR COALESCE(_tip, 0) > 1000 THEN
+    RAISE EXCEPTION 'Tip must be between 0 and 1000';
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN _order_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (user_id, branch_id, order_type, status, tip, total, delivery_address, notes, idempotency_key)
+  VALUES (
+    auth.uid(),
+    _branch_id,
+    _order_type,
+    'pending',
+    round(COALESCE(_tip, 0), 2),
+    0,
+    CASE WHEN _order_type = 'delivery' THEN trim(_delivery_address) END,
+    NULLIF(left(trim(_notes), 1000), ''),
+    _idempotency_key
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING id INTO _order_id;
+
+  -- A concurrent call with the same key got there first
+  IF _order_id IS NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    -- price_each is filled in by set_ordered_item_price and the modifier triggers
+    INSERT INTO public.ordered_items (order_id, menu_id, quantity, price_each, notes)
+    VALUES (
+      _order_id,
+      (_item->>'menu_id')::uuid,
+      (_item->>'quantity')::int,
+      0,
+      NULLIF(left(trim(_item->>'notes'), 200), '')
+    )
+    RETURNING id INTO _item_id;
+
+    INSERT INTO public.ordered_item_modifiers (ordered_item_id, modifier_option_id, name, price_delta)
+    SELECT _item_id, option_id::uuid, '', 0
+    FROM jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb)) AS option_id;
+
+    -- Every modifier group's selection limits must be respected
+    FOR _group IN
+      SELECT mg.name, mg.min_selections, mg.max_selections, count(oim.id) AS selected
+      FROM public.modifier_groups mg
+      LEFT JOIN public.modifier_options mo ON mo.group_id = mg.id
+      LEFT JOIN public.ordered_item_modifiers oim
+        ON oim.modifier_option_id = mo.id AND oim.ordered_item_id = _item_id
+      WHERE mg.menu_id = (_item->>'menu_id')::uuid
+      GROUP BY mg.id, mg.name, mg.min_selections, mg.max_selections
+    LOOP
+      IF _group.selected < _group.min_selections OR _group.selected > _group.max_selections THEN
+        RAISE EXCEPTION 'Choose between % and % options for %',
+          _group.min_selections, _group.max_selections, _group.name;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _tax := round(_subtotal * _tax_rate, 2);
+  _delivery_fee := CASE WHEN _order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      total = _subtotal + _tax + _delivery_fee + tip
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
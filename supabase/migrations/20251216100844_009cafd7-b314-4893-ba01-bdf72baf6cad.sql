@@ -0,0 +1,66 @@
+-- Every status an order has been in, for the customer's order timeline
+CREATE TABLE public.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  status order_status NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_history_order_id_idx ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of their orders"
+ON public.order_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_status_history.order_id
+    AND o.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Staff can view history for their branch orders"
+ON public.order_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_status_history.order_id
+    AND o.branch_id = public.get_user_branch_id(auth.uid())
+  )
+);
+
+-- Record the initial status and every change after it
+CREATE OR REPLACE FUNCTION public.record_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, status)
+    VALUES (NEW.id, COALESCE(NEW.status, 'pending'));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_order_status
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_status();
+
+-- Existing orders get what is known: when they were placed and, if it has moved on,
+-- their current status as of the last update
+INSERT INTO public.order_status_history (order_id, status, created_at)
+SELECT id, 'pending', COALESCE(created_at, now()) FROM public.orders;
+
+INSERT INTO public.order_status_history (order_id, status, created_at)
+SELECT id, status, COALESCE(updated_at, now())
+FROM public.orders
+WHERE status IS DISTINCT FROM 'pending';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE order_status_history;
@@ -0,0 +1,69 @@
+-- Who made each status change, and why
+ALTER TABLE public.order_status_history
+  ADD COLUMN changed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN reason text CHECK (char_length(reason) <= 500);
+
+-- Staff need the names of their branch's customers and colleagues for order cards
+-- and the audit trail
+CREATE POLICY "Staff can view profiles at their branch"
+ON public.profiles
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.user_id = profiles.id
+    AND o.branch_id = public.get_user_branch_id(auth.uid())
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.staff s
+    WHERE s.user_id = profiles.id
+    AND s.branch_id = public.get_user_branch_id(auth.uid())
+  )
+);
+
+-- The reason travels in a transaction-local setting so plain status updates keep working
+CREATE OR REPLACE FUNCTION public.record_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, status, changed_by, reason)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.status, 'pending'),
+      auth.uid(),
+      NULLIF(trim(current_setting('app.status_reason', true)), '')
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Changes an order's status, recording an optional reason in its history. Runs with
+-- the caller's permissions, so the usual update policies on orders apply.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  _order_id uuid,
+  _status order_status,
+  _reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.status_reason', COALESCE(_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = _status
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.status_reason', '', true);
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Statuses an order may move to next. Dine-in and takeaway orders are handed over
+-- at the counter, so only delivery orders go out for delivery. Orders can be
+-- cancelled until they leave the kitchen.
+CREATE OR REPLACE FUNCTION public.is_valid_status_transition(
+  _order_type order_type,
+  _from order_status,
+  _to order_status
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (_from, _to) IN (
+    ('pending', 'preparing'),
+    ('pending', 'cancelled'),
+    ('preparing', 'ready'),
+    ('preparing', 'cancelled'),
+    ('ready', 'cancelled')
+  )
+  OR (_order_type = 'delivery' AND (_from, _to) IN (
+    ('ready', 'in_delivery'),
+    ('in_delivery', 'delivered')
+  ))
+  OR (_order_type <> 'delivery' AND (_from, _to) IN (
+    ('ready', 'delivered')
+  ))
+$$;
+
+-- Row-level check, so two staff racing on the same order cannot skip a step
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.order_type IS DISTINCT FROM OLD.order_type THEN
+    RAISE EXCEPTION 'The order type cannot be changed after an order is placed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.is_valid_status_transition(NEW.order_type, OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A % order cannot go from % to %', NEW.order_type, OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_order_status_transition
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_order_status_transition();
+
@@ -0,0 +1,37 @@
+-- Lets customers cancel their own order while the kitchen has not started on it.
+-- The row is locked first so a concurrent move to preparing wins or loses cleanly.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status order_status;
+BEGIN
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please tell us why you are cancelling';
+  END IF;
+
+  SELECT status INTO _status
+  FROM public.orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _status <> 'pending' THEN
+    RAISE EXCEPTION 'This order is already being prepared and can no longer be cancelled';
+  END IF;
+
+  PERFORM set_config('app.status_reason', left(trim(_reason), 500), true);
+
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id;
+
+  PERFORM set_config('app.status_reason', '', true);
+END;
+$$;
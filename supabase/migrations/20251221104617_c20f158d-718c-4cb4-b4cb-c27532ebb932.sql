@@ -0,0 +1,333 @@
+-- Kinds of discount a promo code can give
+CREATE TYPE public.promo_type AS ENUM ('percentage', 'fixed_amount', 'free_delivery', 'buy_x_get_y');
+
+-- Admin-defined promo codes. Codes are stored upper case and matched case-insensitively.
+-- value is the percentage off or the amount off; buy_x_get_y codes give get_quantity
+-- of buy_menu_id free for every buy_quantity bought. NULL restrictions and limits mean "any".
+CREATE TABLE public.promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code varchar(32) NOT NULL UNIQUE CHECK (code = upper(code) AND code <> ''),
+  description text,
+  promo_type public.promo_type NOT NULL,
+  value decimal(10,2),
+  buy_menu_id uuid REFERENCES public.menu(id) ON DELETE CASCADE,
+  buy_quantity int,
+  get_quantity int,
+  min_subtotal decimal(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  branch_ids uuid[],
+  order_types public.order_type[],
+  max_uses int CHECK (max_uses > 0),
+  max_uses_per_user int CHECK (max_uses_per_user > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT promo_codes_window_check CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at),
+  CONSTRAINT promo_codes_value_check CHECK (
+    CASE promo_type
+      WHEN 'percentage' THEN value > 0 AND value <= 100
+      WHEN 'fixed_amount' THEN value > 0
+      WHEN 'buy_x_get_y' THEN buy_menu_id IS NOT NULL AND buy_quantity >= 1 AND get_quantity >= 1
+      ELSE true
+    END
+  )
+);
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Customers never read codes directly; they go through check_promo_code()
+CREATE POLICY "Admins can view promo codes"
+ON public.promo_codes
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert promo codes"
+ON public.promo_codes
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update promo codes"
+ON public.promo_codes
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete promo codes"
+ON public.promo_codes
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The code applied to an order and the discount it gave. Used codes can't be
+-- deleted, only deactivated, so usage limits keep counting them.
+ALTER TABLE public.orders ADD COLUMN promo_code_id uuid REFERENCES public.promo_codes(id);
+ALTER TABLE public.orders ADD COLUMN discount decimal(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0);
+
+-- Looks up a code for the current user and checks every restriction except the
+-- minimum subtotal, which depends on the order's lines. Cancelled orders don't
+-- count towards usage limits.
+CREATE OR REPLACE FUNCTION public.check_promo_code(_code text, _branch_id uuid, _order_type order_type)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promo public.promo_codes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a promo code';
+  END IF;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes
+  WHERE code = upper(trim(_code)) AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promo code % is not valid', upper(trim(_code));
+  END IF;
+
+  IF _promo.starts_at > now() THEN
+    RAISE EXCEPTION 'Promo code % is not active yet', _promo.code;
+  END IF;
+
+  IF _promo.ends_at <= now() THEN
+    RAISE EXCEPTION 'Promo code % has expired', _promo.code;
+  END IF;
+
+  IF _promo.branch_ids IS NOT NULL AND NOT _branch_id = ANY (_promo.branch_ids) THEN
+    RAISE EXCEPTION 'Promo code % can''t be used at this branch', _promo.code;
+  END IF;
+
+  IF _promo.order_types IS NOT NULL AND NOT _order_type = ANY (_promo.order_types) THEN
+    RAISE EXCEPTION 'Promo code % can''t be used for % orders', _promo.code, replace(_order_type::text, '_', ' ');
+  END IF;
+
+  IF _promo.max_uses IS NOT NULL AND (
+    SELECT count(*) FROM public.orders
+    WHERE promo_code_id = _promo.id AND status <> 'cancelled'
+  ) >= _promo.max_uses THEN
+    RAISE EXCEPTION 'Promo code % has been fully redeemed', _promo.code;
+  END IF;
+
+  IF _promo.max_uses_per_user IS NOT NULL AND (
+    SELECT count(*) FROM public.orders
+    WHERE promo_code_id = _promo.id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) >= _promo.max_uses_per_user THEN
+    RAISE EXCEPTION 'You have already used promo code %', _promo.code;
+  END IF;
+
+  RETURN _promo;
+END;
+$$;
+
+-- Recomputes discount, tax, delivery fee and total from the order's lines
+CREATE OR REPLACE FUNCTION public.refresh_order_totals(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _order record;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _delivery_fee decimal;
+  _item_discount decimal := 0;
+  _delivery_discount decimal := 0;
+  _tax decimal;
+BEGIN
+  SELECT order_type, tip, promo_code_id INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _delivery_fee := CASE WHEN _order.order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes
+  WHERE id = _order.promo_code_id;
+
+  -- An edit can take the order below the code's minimum, which drops the discount
+  IF FOUND AND _subtotal >= _promo.min_subtotal THEN
+    CASE _promo.promo_type
+      WHEN 'percentage' THEN
+        _item_discount := round(_subtotal * _promo.value / 100, 2);
+      WHEN 'fixed_amount' THEN
+        _item_discount := least(_promo.value, _subtotal);
+      WHEN 'free_delivery' THEN
+        _delivery_discount := _delivery_fee;
+      WHEN 'buy_x_get_y' THEN
+        -- Each full set of buy + get units earns get units free, priced at the cheapest line
+        SELECT COALESCE(sum(quantity) / (_promo.buy_quantity + _promo.get_quantity) * _promo.get_quantity * min(price_each), 0)
+        INTO _item_discount
+        FROM public.ordered_items
+        WHERE order_id = _order_id AND menu_id = _promo.buy_menu_id;
+    END CASE;
+  END IF;
+
+  -- Tax is charged on the food after discounts
+  _tax := round((_subtotal - _item_discount) * _tax_rate, 2);
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      discount = _item_discount + _delivery_discount,
+      total = _subtotal - _item_discount + _tax + _delivery_fee - _delivery_discount + COALESCE(_order.tip, 0)
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Adds _promo_code; the signature change needs a new function
+DROP FUNCTION public.place_order(uuid, order_type, jsonb, text, text, decimal, uuid, timestamptz);
+
+-- Places an order for the current user. _items is a JSON array of
+-- { menu_id, quantity, notes, modifier_option_ids } objects.
+-- Retrying with the same _idempotency_key returns the order the first call created.
+-- _scheduled_for is NULL for orders wanted as soon as possible.
+-- _promo_code is checked against all of its restrictions and must give a discount.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _branch_id uuid,
+  _order_type order_type,
+  _items jsonb,
+  _delivery_address text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _tip decimal DEFAULT 0,
+  _idempotency_key uuid DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _promo_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _promo public.promo_codes;
+  _subtotal decimal;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = _branch_id) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF _order_type = 'delivery' AND COALESCE(trim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required for delivery orders';
+  END IF;
+
+  IF COALESCE(_tip, 0) < 0 OR COALESCE(_tip, 0) > 1000 THEN
+    RAISE EXCEPTION 'Tip must be between 0 and 1000';
+  END IF;
+
+  -- Branch hours are wall-clock times without a zone, so the slot picker, which runs in
+  -- the customer's local time, keeps requests inside them; this only bounds the range
+  IF _scheduled_for IS NOT NULL
+    AND (_scheduled_for < now() OR _scheduled_for > now() + interval '7 days') THEN
+    RAISE EXCEPTION 'Scheduled time must be within the next 7 days';
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN _order_id;
+    END IF;
+  END IF;
+
+  IF COALESCE(trim(_promo_code), '') <> '' THEN
+    -- Held until commit so concurrent orders can't both take a code's last use
+    PERFORM 1 FROM public.promo_codes WHERE code = upper(trim(_promo_code)) FOR UPDATE;
+    _promo := public.check_promo_code(_promo_code, _branch_id, _order_type);
+  END IF;
+
+  INSERT INTO public.orders (user_id, branch_id, order_type, status, tip, total, delivery_address, notes, idempotency_key, scheduled_for, promo_code_id)
+  VALUES (
+    auth.uid(),
+    _branch_id,
+    _order_type,
+    'pending',
+    round(COALESCE(_tip, 0), 2),
+    0,
+    CASE WHEN _order_type = 'delivery' THEN trim(_delivery_address) END,
+    NULLIF(left(trim(_notes), 1000), ''),
+    _idempotency_key,
+    _scheduled_for,
+    _promo.id
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING id INTO _order_id;
+
+  -- A concurrent call with the same key got there first
+  IF _order_id IS NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    PERFORM public.add_order_line(_order_id, _item);
+  END LOOP;
+
+  PERFORM public.refresh_order_totals(_order_id);
+
+  IF _promo.id IS NOT NULL AND (SELECT discount FROM public.orders WHERE id = _order_id) = 0 THEN
+    SELECT sum(price_each * quantity) INTO _subtotal
+    FROM public.ordered_items
+    WHERE order_id = _order_id;
+
+    IF _subtotal < _promo.min_subtotal THEN
+      RAISE EXCEPTION 'Spend at least $% to use promo code %', _promo.min_subtotal, _promo.code;
+    END IF;
+
+    RAISE EXCEPTION 'Promo code % doesn''t apply to the items in this order', _promo.code;
+  END IF;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Redemptions and discount given per code, for the admin promo list. Codes only
+-- used on cancelled orders still get a row, since they can't be deleted either.
+CREATE OR REPLACE FUNCTION public.promo_code_usage()
+RETURNS TABLE (
+  promo_code_id uuid,
+  uses bigint,
+  discount_total decimal
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view promo code usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.promo_code_id,
+    count(o.id) FILTER (WHERE o.status <> 'cancelled'),
+    COALESCE(sum(o.discount) FILTER (WHERE o.status <> 'cancelled'), 0)
+  FROM public.orders o
+  WHERE o.promo_code_id IS NOT NULL
+  GROUP BY o.promo_code_id;
+END;
+$$;
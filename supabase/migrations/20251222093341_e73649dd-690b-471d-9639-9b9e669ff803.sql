@@ -0,0 +1,354 @@
+-- Loyalty tiers; customers move up by the points they have earned over time.
+-- earn_rate is points per dollar spent.
+CREATE TABLE public.loyalty_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name varchar(50) NOT NULL,
+  min_points int NOT NULL UNIQUE CHECK (min_points >= 0),
+  earn_rate decimal(4,2) NOT NULL CHECK (earn_rate > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view loyalty tiers"
+ON public.loyalty_tiers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert loyalty tiers"
+ON public.loyalty_tiers
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update loyalty tiers"
+ON public.loyalty_tiers
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete loyalty tiers"
+ON public.loyalty_tiers
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.loyalty_tiers (name, min_points, earn_rate) VALUES
+  ('Bronze', 0, 1),
+  ('Silver', 500, 1.25),
+  ('Gold', 2000, 1.5);
+
+CREATE TYPE public.loyalty_reason AS ENUM ('earned', 'redeemed', 'refunded');
+
+-- Ledger of every change to a customer's points; the balance is the sum
+CREATE TABLE public.loyalty_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  points int NOT NULL CHECK (points <> 0),
+  reason public.loyalty_reason NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX loyalty_transactions_user_id_idx ON public.loyalty_transactions (user_id, created_at);
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Only written by the order functions and triggers below
+CREATE POLICY "Users can view own loyalty transactions"
+ON public.loyalty_transactions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Points spent on an order and what they took off
+ALTER TABLE public.orders ADD COLUMN points_redeemed int NOT NULL DEFAULT 0 CHECK (points_redeemed >= 0);
+ALTER TABLE public.orders ADD COLUMN points_discount decimal(10,2) NOT NULL DEFAULT 0 CHECK (points_discount >= 0);
+
+CREATE OR REPLACE FUNCTION public.loyalty_balance(_user_id uuid)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(points), 0)::int
+  FROM public.loyalty_transactions
+  WHERE user_id = _user_id
+$$;
+
+-- Tier a customer is in, from the points they have ever earned
+CREATE OR REPLACE FUNCTION public.loyalty_tier(_user_id uuid)
+RETURNS public.loyalty_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM public.loyalty_tiers t
+  WHERE t.min_points <= (
+    SELECT COALESCE(sum(points), 0)
+    FROM public.loyalty_transactions
+    WHERE user_id = _user_id AND reason = 'earned'
+  )
+  ORDER BY t.min_points DESC
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.loyalty_balance(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.loyalty_tier(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Delivered orders earn points on what the customer paid, tip excluded, at their
+-- tier's rate. Cancelled orders hand back any points spent on them.
+CREATE OR REPLACE FUNCTION public.record_loyalty_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _points int;
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' AND NEW.user_id IS NOT NULL THEN
+    _points := floor((NEW.total - COALESCE(NEW.tip, 0)) * COALESCE((public.loyalty_tier(NEW.user_id)).earn_rate, 1));
+
+    IF _points > 0 THEN
+      INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+      VALUES (NEW.user_id, NEW.id, _points, 'earned');
+    END IF;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.points_redeemed > 0 THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (NEW.user_id, NEW.id, NEW.points_redeemed, 'refunded');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_loyalty_points
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_loyalty_points();
+
+-- Recomputes discounts, tax, delivery fee and total from the order's lines. Points that
+-- are worth more than the food left after an edit are handed back to the customer.
+CREATE OR REPLACE FUNCTION public.refresh_order_totals(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _points_per_dollar constant int := 100;
+  _order record;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _delivery_fee decimal;
+  _item_discount decimal := 0;
+  _delivery_discount decimal := 0;
+  _points int;
+  _tax decimal;
+BEGIN
+  SELECT user_id, order_type, tip, promo_code_id, points_redeemed INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _delivery_fee := CASE WHEN _order.order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes
+  WHERE id = _order.promo_code_id;
+
+  -- An edit can take the order below the code's minimum, which drops the discount
+  IF FOUND AND _subtotal >= _promo.min_subtotal THEN
+    CASE _promo.promo_type
+      WHEN 'percentage' THEN
+        _item_discount := round(_subtotal * _promo.value / 100, 2);
+      WHEN 'fixed_amount' THEN
+        _item_discount := least(_promo.value, _subtotal);
+      WHEN 'free_delivery' THEN
+        _delivery_discount := _delivery_fee;
+      WHEN 'buy_x_get_y' THEN
+        -- Each full set of buy + get units earns get units free, priced at the cheapest line
+        SELECT COALESCE(sum(quantity) / (_promo.buy_quantity + _promo.get_quantity) * _promo.get_quantity * min(price_each), 0)
+        INTO _item_discount
+        FROM public.ordered_items
+        WHERE order_id = _order_id AND menu_id = _promo.buy_menu_id;
+    END CASE;
+  END IF;
+
+  _points := least(_order.points_redeemed, floor((_subtotal - _item_discount) * _points_per_dollar)::int);
+
+  IF _points < _order.points_redeemed THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (_order.user_id, _order_id, _order.points_redeemed - _points, 'refunded');
+  END IF;
+
+  -- Tax is charged on the food after discounts
+  _tax := round((_subtotal - _item_discount - _points::decimal / _points_per_dollar) * _tax_rate, 2);
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      discount = _item_discount + _delivery_discount,
+      points_redeemed = _points,
+      points_discount = _points::decimal / _points_per_dollar,
+      total = _subtotal - _item_discount - _points::decimal / _points_per_dollar
+        + _tax + _delivery_fee - _delivery_discount + COALESCE(_order.tip, 0)
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Adds _points; the signature change needs a new function
+DROP FUNCTION public.place_order(uuid, order_type, jsonb, text, text, decimal, uuid, timestamptz, text);
+
+-- Places an order for the current user. _items is a JSON array of
+-- { menu_id, quantity, notes, modifier_option_ids } objects.
+-- Retrying with the same _idempotency_key returns the order the first call created.
+-- _scheduled_for is NULL for orders wanted as soon as possible.
+-- _promo_code is checked against all of its restrictions and must give a discount.
+-- _points are taken from the customer's loyalty balance, 100 to the dollar.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _branch_id uuid,
+  _order_type order_type,
+  _items jsonb,
+  _delivery_address text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _tip decimal DEFAULT 0,
+  _idempotency_key uuid DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _promo_code text DEFAULT NULL,
+  _points int DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _balance int;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = _branch_id) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF _order_type = 'delivery' AND COALESCE(trim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required for delivery orders';
+  END IF;
+
+  IF COALESCE(_tip, 0) < 0 OR COALESCE(_tip, 0) > 1000 THEN
+    RAISE EXCEPTION 'Tip must be between 0 and 1000';
+  END IF;
+
+  -- Branch hours are wall-clock times without a zone, so the slot picker, which runs in
+  -- the customer's local time, keeps requests inside them; this only bounds the range
+  IF _scheduled_for IS NOT NULL
+    AND (_scheduled_for < now() OR _scheduled_for > now() + interval '7 days') THEN
+    RAISE EXCEPTION 'Scheduled time must be within the next 7 days';
+  END IF;
+
+  IF COALESCE(_points, 0) < 0 THEN
+    RAISE EXCEPTION 'Points to redeem cannot be negative';
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN _order_id;
+    END IF;
+  END IF;
+
+  IF COALESCE(trim(_promo_code), '') <> '' THEN
+    -- Held until commit so concurrent orders can't both take a code's last use
+    PERFORM 1 FROM public.promo_codes WHERE code = upper(trim(_promo_code)) FOR UPDATE;
+    _promo := public.check_promo_code(_promo_code, _branch_id, _order_type);
+  END IF;
+
+  IF COALESCE(_points, 0) > 0 THEN
+    -- Held until commit so two orders can't spend the same points
+    PERFORM 1 FROM public.profiles WHERE id = auth.uid() FOR UPDATE;
+    _balance := public.loyalty_balance(auth.uid());
+
+    IF _points > _balance THEN
+      RAISE EXCEPTION 'You only have % points', _balance;
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (user_id, branch_id, order_type, status, tip, total, delivery_address, notes, idempotency_key, scheduled_for, promo_code_id, points_redeemed)
+  VALUES (
+    auth.uid(),
+    _branch_id,
+    _order_type,
+    'pending',
+    round(COALESCE(_tip, 0), 2),
+    0,
+    CASE WHEN _order_type = 'delivery' THEN trim(_delivery_address) END,
+    NULLIF(left(trim(_notes), 1000), ''),
+    _idempotency_key,
+    _scheduled_for,
+    _promo.id,
+    COALESCE(_points, 0)
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING id INTO _order_id;
+
+  -- A concurrent call with the same key got there first
+  IF _order_id IS NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    PERFORM public.add_order_line(_order_id, _item);
+  END LOOP;
+
+  IF COALESCE(_points, 0) > 0 THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (auth.uid(), _order_id, -_points, 'redeemed');
+  END IF;
+
+  PERFORM public.refresh_order_totals(_order_id);
+
+  IF (SELECT points_redeemed FROM public.orders WHERE id = _order_id) < COALESCE(_points, 0) THEN
+    RAISE EXCEPTION 'You can use at most % points on this order',
+      (SELECT points_redeemed FROM public.orders WHERE id = _order_id);
+  END IF;
+
+  IF _promo.id IS NOT NULL AND (SELECT discount FROM public.orders WHERE id = _order_id) = 0 THEN
+    SELECT sum(price_each * quantity) INTO _subtotal
+    FROM public.ordered_items
+    WHERE order_id = _order_id;
+
+    IF _subtotal < _promo.min_subtotal THEN
+      RAISE EXCEPTION 'Spend at least $% to use promo code %', _promo.min_subtotal, _promo.code;
+    END IF;
+
+    RAISE EXCEPTION 'Promo code % doesn''t apply to the items in this order', _promo.code;
+  END IF;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,461 @@
+CREATE TYPE public.gift_card_reason AS ENUM ('issued', 'redeemed', 'refunded', 'voided');
+
+-- Stored-value cards issued by admins. The balance is the sum of the card's ledger.
+CREATE TABLE public.gift_cards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code varchar(19) NOT NULL UNIQUE,
+  initial_amount decimal(10,2) NOT NULL CHECK (initial_amount > 0),
+  recipient_name varchar(100),
+  recipient_email varchar(100),
+  notes text,
+  issued_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  voided_at timestamptz,
+  voided_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  void_reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Every change to a card's balance: positive for issues and refunds, negative for
+-- redemptions and voids
+CREATE TABLE public.gift_card_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  gift_card_id uuid REFERENCES public.gift_cards(id) ON DELETE CASCADE NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  amount decimal(10,2) NOT NULL CHECK (amount <> 0),
+  reason public.gift_card_reason NOT NULL,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX gift_card_transactions_gift_card_id_idx ON public.gift_card_transactions (gift_card_id, created_at);
+
+ALTER TABLE public.gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_card_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Cards are only changed through the functions below
+CREATE POLICY "Admins can view gift cards"
+ON public.gift_cards
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view gift card transactions"
+ON public.gift_card_transactions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Gift card credit used to pay for an order; total stays the order's full price
+ALTER TABLE public.orders ADD COLUMN gift_card_id uuid REFERENCES public.gift_cards(id) ON DELETE SET NULL;
+ALTER TABLE public.orders ADD COLUMN gift_card_amount decimal(10,2) NOT NULL DEFAULT 0 CHECK (gift_card_amount >= 0);
+
+CREATE OR REPLACE FUNCTION public.gift_card_balance(_gift_card_id uuid)
+RETURNS decimal
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(amount), 0)
+  FROM public.gift_card_transactions
+  WHERE gift_card_id = _gift_card_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gift_card_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Balance of a card by its code, for customers entering one at checkout
+CREATE OR REPLACE FUNCTION public.check_gift_card(_code text)
+RETURNS decimal
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gift_card_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a gift card';
+  END IF;
+
+  SELECT id INTO _gift_card_id
+  FROM public.gift_cards
+  WHERE code = upper(trim(_code)) AND voided_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift card % is not valid', upper(trim(_code));
+  END IF;
+
+  RETURN public.gift_card_balance(_gift_card_id);
+END;
+$$;
+
+-- Issues a card with a new random code such as 4F2A-9C1B-77D0-E3A5
+CREATE OR REPLACE FUNCTION public.issue_gift_card(
+  _amount decimal,
+  _recipient_name text DEFAULT NULL,
+  _recipient_email text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS public.gift_cards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _card public.gift_cards;
+  _code text;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue gift cards';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 OR _amount > 10000 THEN
+    RAISE EXCEPTION 'Gift card amount must be between 0 and 10000';
+  END IF;
+
+  LOOP
+    _code := upper(regexp_replace(left(md5(gen_random_uuid()::text), 16), '(.{4})(?!$)', '\1-', 'g'));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.gift_cards WHERE code = _code);
+  END LOOP;
+
+  INSERT INTO public.gift_cards (code, initial_amount, recipient_name, recipient_email, notes, issued_by)
+  VALUES (
+    _code,
+    round(_amount, 2),
+    NULLIF(left(trim(_recipient_name), 100), ''),
+    NULLIF(left(trim(_recipient_email), 100), ''),
+    NULLIF(trim(_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO _card;
+
+  INSERT INTO public.gift_card_transactions (gift_card_id, amount, reason, created_by)
+  VALUES (_card.id, _card.initial_amount, 'issued', auth.uid());
+
+  RETURN _card;
+END;
+$$;
+
+-- Voids a card, writing off whatever balance it had left
+CREATE OR REPLACE FUNCTION public.void_gift_card(_gift_card_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance decimal;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can void gift cards';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a gift card';
+  END IF;
+
+  PERFORM 1 FROM public.gift_cards WHERE id = _gift_card_id AND voided_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift card not found or already voided';
+  END IF;
+
+  _balance := public.gift_card_balance(_gift_card_id);
+
+  IF _balance > 0 THEN
+    INSERT INTO public.gift_card_transactions (gift_card_id, amount, reason, created_by)
+    VALUES (_gift_card_id, -_balance, 'voided', auth.uid());
+  END IF;
+
+  UPDATE public.gift_cards
+  SET voided_at = now(), voided_by = auth.uid(), void_reason = left(trim(_reason), 500)
+  WHERE id = _gift_card_id;
+END;
+$$;
+
+-- Cancelled orders put what they took back on the card
+CREATE OR REPLACE FUNCTION public.refund_gift_card()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.gift_card_amount > 0 THEN
+    INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason, created_by)
+    VALUES (NEW.gift_card_id, NEW.id, NEW.gift_card_amount, 'refunded', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refund_gift_card
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refund_gift_card();
+
+-- Recomputes discounts, tax, delivery fee and total from the order's lines. Points and
+-- gift card credit no longer needed after an edit are handed back.
+CREATE OR REPLACE FUNCTION public.refresh_order_totals(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _points_per_dollar constant int := 100;
+  _order record;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _delivery_fee decimal;
+  _item_discount decimal := 0;
+  _delivery_discount decimal := 0;
+  _points int;
+  _tax decimal;
+  _total decimal;
+  _gift_card_amount decimal;
+BEGIN
+  SELECT user_id, order_type, tip, promo_code_id, points_redeemed, gift_card_id, gift_card_amount INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _delivery_fee := CASE WHEN _order.order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes
+  WHERE id = _order.promo_code_id;
+
+  -- An edit can take the order below the code's minimum, which drops the discount
+  IF FOUND AND _subtotal >= _promo.min_subtotal THEN
+    CASE _promo.promo_type
+      WHEN 'percentage' THEN
+        _item_discount := round(_subtotal * _promo.value / 100, 2);
+      WHEN 'fixed_amount' THEN
+        _item_discount := least(_promo.value, _subtotal);
+      WHEN 'free_delivery' THEN
+        _delivery_discount := _delivery_fee;
+      WHEN 'buy_x_get_y' THEN
+        -- Each full set of buy + get units earns get units free, priced at the cheapest line
+        SELECT COALESCE(sum(quantity) / (_promo.buy_quantity + _promo.get_quantity) * _promo.get_quantity * min(price_each), 0)
+        INTO _item_discount
+        FROM public.ordered_items
+        WHERE order_id = _order_id AND menu_id = _promo.buy_menu_id;
+    END CASE;
+  END IF;
+
+  _points := least(_order.points_redeemed, floor((_subtotal - _item_discount) * _points_per_dollar)::int);
+
+  IF _points < _order.points_redeemed THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (_order.user_id, _order_id, _order.points_redeemed - _points, 'refunded');
+  END IF;
+
+  -- Tax is charged on the food after discounts
+  _tax := round((_subtotal - _item_discount - _points::decimal / _points_per_dollar) * _tax_rate, 2);
+
+  _total := _subtotal - _item_discount - _points::decimal / _points_per_dollar
+    + _tax + _delivery_fee - _delivery_discount + COALESCE(_order.tip, 0);
+
+  -- A gift card pays up to the total; it never takes more after an edit
+  _gift_card_amount := least(_order.gift_card_amount, _total);
+
+  IF _gift_card_amount < _order.gift_card_amount THEN
+    INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason)
+    VALUES (_order.gift_card_id, _order_id, _order.gift_card_amount - _gift_card_amount, 'refunded');
+  END IF;
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      discount = _item_discount + _delivery_discount,
+      points_redeemed = _points,
+      points_discount = _points::decimal / _points_per_dollar,
+      gift_card_amount = _gift_card_amount,
+      total = _total
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Adds _gift_card_code; the signature change needs a new function
+DROP FUNCTION public.place_order(uuid, order_type, jsonb, text, text, decimal, uuid, timestamptz, text, int);
+
+-- Places an order for the current user. _items is a JSON array of
+-- { menu_id, quantity, notes, modifier_option_ids } objects.
+-- Retrying with the same _idempotency_key returns the order the first call created.
+-- _scheduled_for is NULL for orders wanted as soon as possible.
+-- _promo_code is checked against all of its restrictions and must give a discount.
+-- _points are taken from the customer's loyalty balance, 100 to the dollar.
+-- _gift_card_code pays as much of the total as the card's balance covers.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _branch_id uuid,
+  _order_type order_type,
+  _items jsonb,
+  _delivery_address text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _tip decimal DEFAULT 0,
+  _idempotency_key uuid DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _promo_code text DEFAULT NULL,
+  _points int DEFAULT 0,
+  _gift_card_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _balance int;
+  _gift_card_id uuid;
+  _gift_card_amount decimal;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = _branch_id) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF _order_type = 'delivery' AND COALESCE(trim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required for delivery orders';
+  END IF;
+
+  IF COALESCE(_tip, 0) < 0 OR COALESCE(_tip, 0) > 1000 THEN
+    RAISE EXCEPTION 'Tip must be between 0 and 1000';
+  END IF;
+
+  -- Branch hours are wall-clock times without a zone, so the slot picker, which runs in
+  -- the customer's local time, keeps requests inside them; this only bounds the range
+  IF _scheduled_for IS NOT NULL
+    AND (_scheduled_for < now() OR _scheduled_for > now() + interval '7 days') THEN
+    RAISE EXCEPTION 'Scheduled time must be within the next 7 days';
+  END IF;
+
+  IF COALESCE(_points, 0) < 0 THEN
+    RAISE EXCEPTION 'Points to redeem cannot be negative';
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN _order_id;
+    END IF;
+  END IF;
+
+  IF COALESCE(trim(_promo_code), '') <> '' THEN
+    -- Held until commit so concurrent orders can't both take a code's last use
+    PERFORM 1 FROM public.promo_codes WHERE code = upper(trim(_promo_code)) FOR UPDATE;
+    _promo := public.check_promo_code(_promo_code, _branch_id, _order_type);
+  END IF;
+
+  IF COALESCE(_points, 0) > 0 THEN
+    -- Held until commit so two orders can't spend the same points
+    PERFORM 1 FROM public.profiles WHERE id = auth.uid() FOR UPDATE;
+    _balance := public.loyalty_balance(auth.uid());
+
+    IF _points > _balance THEN
+      RAISE EXCEPTION 'You only have % points', _balance;
+    END IF;
+  END IF;
+
+  IF COALESCE(trim(_gift_card_code), '') <> '' THEN
+    -- Held until commit so two orders can't spend the same balance
+    SELECT id INTO _gift_card_id
+    FROM public.gift_cards
+    WHERE code = upper(trim(_gift_card_code)) AND voided_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND OR public.gift_card_balance(_gift_card_id) <= 0 THEN
+      RAISE EXCEPTION 'Gift card % has no balance', upper(trim(_gift_card_code));
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (user_id, branch_id, order_type, status, tip, total, delivery_address, notes, idempotency_key, scheduled_for, promo_code_id, points_redeemed)
+  VALUES (
+    auth.uid(),
+    _branch_id,
+    _order_type,
+    'pending',
+    round(COALESCE(_tip, 0), 2),
+    0,
+    CASE WHEN _order_type = 'delivery' THEN trim(_delivery_address) END,
+    NULLIF(left(trim(_notes), 1000), ''),
+    _idempotency_key,
+    _scheduled_for,
+    _promo.id,
+    COALESCE(_points, 0)
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING id INTO _order_id;
+
+  -- A concurrent call with the same key got there first
+  IF _order_id IS NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    PERFORM public.add_order_line(_order_id, _item);
+  END LOOP;
+
+  IF COALESCE(_points, 0) > 0 THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (auth.uid(), _order_id, -_points, 'redeemed');
+  END IF;
+
+  PERFORM public.refresh_order_totals(_order_id);
+
+  IF (SELECT points_redeemed FROM public.orders WHERE id = _order_id) < COALESCE(_points, 0) THEN
+    RAISE EXCEPTION 'You can use at most % points on this order',
+      (SELECT points_redeemed FROM public.orders WHERE id = _order_id);
+  END IF;
+
+  IF _promo.id IS NOT NULL AND (SELECT discount FROM public.orders WHERE id = _order_id) = 0 THEN
+    SELECT sum(price_each * quantity) INTO _subtotal
+    FROM public.ordered_items
+    WHERE order_id = _order_id;
+
+    IF _subtotal < _promo.min_subtotal THEN
+      RAISE EXCEPTION 'Spend at least $% to use promo code %', _promo.min_subtotal, _promo.code;
+    END IF;
+
+    RAISE EXCEPTION 'Promo code % doesn''t apply to the items in this order', _promo.code;
+  END IF;
+
+  IF _gift_card_id IS NOT NULL THEN
+    SELECT least(public.gift_card_balance(_gift_card_id), total) INTO _gift_card_amount
+    FROM public.orders
+    WHERE id = _order_id;
+
+    UPDATE public.orders
+    SET gift_card_id = _gift_card_id, gift_card_amount = _gift_card_amount
+    WHERE id = _order_id;
+
+    INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason, created_by)
+    VALUES (_gift_card_id, _order_id, -_gift_card_amount, 'redeemed', auth.uid());
+  END IF;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,434 @@
+-- Combo meals sold as a unit at one price (e.g. "Burger + Wings + Iced Coffee")
+CREATE TABLE public.combos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name varchar(100) NOT NULL,
+  description text,
+  price decimal(10,2) NOT NULL CHECK (price >= 0),
+  photo_url text,
+  available boolean NOT NULL DEFAULT true,
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- The parts of a combo the customer picks one item for (e.g. "Main", "Side", "Drink")
+CREATE TABLE public.combo_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  combo_id uuid REFERENCES public.combos(id) ON DELETE CASCADE NOT NULL,
+  name varchar(100) NOT NULL,
+  sort_order int NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Menu items a slot can be filled with, and what picking them adds to the combo price
+CREATE TABLE public.combo_slot_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid REFERENCES public.combo_slots(id) ON DELETE CASCADE NOT NULL,
+  menu_id uuid REFERENCES public.menu(id) ON DELETE CASCADE NOT NULL,
+  price_delta decimal(10,2) NOT NULL DEFAULT 0 CHECK (price_delta >= 0),
+  sort_order int NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (slot_id, menu_id)
+);
+
+ALTER TABLE public.combos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combo_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combo_slot_options ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for combos (public read, admin write)
+CREATE POLICY "Anyone can view combos"
+ON public.combos
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert combos"
+ON public.combos
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update combos"
+ON public.combos
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete combos"
+ON public.combos
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for combo_slots (public read, admin write)
+CREATE POLICY "Anyone can view combo slots"
+ON public.combo_slots
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert combo slots"
+ON public.combo_slots
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update combo slots"
+ON public.combo_slots
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete combo slots"
+ON public.combo_slots
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for combo_slot_options (public read, admin write)
+CREATE POLICY "Anyone can view combo slot options"
+ON public.combo_slot_options
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert combo slot options"
+ON public.combo_slot_options
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update combo slot options"
+ON public.combo_slot_options
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete combo slot options"
+ON public.combo_slot_options
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- A combo is ordered as one priced line with no menu_id, plus one unpriced component
+-- line per slot pointing back at it, so the kitchen sees each item it has to make.
+-- combo_slot snapshots the slot name so menu edits don't rewrite history.
+ALTER TABLE public.ordered_items
+  ADD COLUMN combo_id uuid REFERENCES public.combos(id) ON DELETE SET NULL,
+  ADD COLUMN parent_item_id uuid REFERENCES public.ordered_items(id) ON DELETE CASCADE,
+  ADD COLUMN combo_slot varchar(100);
+
+CREATE INDEX ordered_items_parent_item_id_idx ON public.ordered_items (parent_item_id);
+
+-- Refuse order lines for items or combos the order's branch is not selling
+CREATE OR REPLACE FUNCTION public.check_ordered_item_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _branch_id uuid;
+BEGIN
+  IF NEW.combo_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.combos
+      WHERE id = NEW.combo_id AND available AND archived_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Combo % is not available', NEW.combo_id;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT branch_id INTO _branch_id FROM public.orders WHERE id = NEW.order_id;
+
+  IF NOT public.is_available_at_branch(NEW.menu_id, _branch_id) THEN
+    RAISE EXCEPTION 'Menu item % is not available at this branch', NEW.menu_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Order lines are always charged at the branch's current price, whatever the client sent.
+-- Combo lines start at the combo price and their component lines are free.
+CREATE OR REPLACE FUNCTION public.set_ordered_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_item_id IS NOT NULL THEN
+    NEW.price_each := 0;
+  ELSIF NEW.combo_id IS NOT NULL THEN
+    NEW.price_each := (SELECT price FROM public.combos WHERE id = NEW.combo_id);
+  ELSE
+    NEW.price_each := public.branch_price(
+      NEW.menu_id,
+      (SELECT branch_id FROM public.orders WHERE id = NEW.order_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Adds a combo line and its component lines. _item is
+-- { combo_id, quantity, notes, choices: [{ slot_id, menu_id }] } with one choice per slot.
+-- Components are made as listed on the menu; their modifiers aren't offered.
+CREATE OR REPLACE FUNCTION public.add_combo_line(_order_id uuid, _item jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item_id uuid;
+  _choices jsonb := COALESCE(_item->'choices', '[]'::jsonb);
+  _slot_count int;
+  _slot record;
+BEGIN
+  SELECT count(*) INTO _slot_count
+  FROM public.combo_slots
+  WHERE combo_id = (_item->>'combo_id')::uuid;
+
+  IF _slot_count = 0 THEN
+    RAISE EXCEPTION 'Combo % is not available', _item->>'combo_id';
+  END IF;
+
+  IF jsonb_typeof(_choices) <> 'array' OR jsonb_array_length(_choices) <> _slot_count THEN
+    RAISE EXCEPTION 'Choose one item for each part of the combo';
+  END IF;
+
+  INSERT INTO public.ordered_items (order_id, combo_id, quantity, price_each, notes)
+  VALUES (
+    _order_id,
+    (_item->>'combo_id')::uuid,
+    (_item->>'quantity')::int,
+    0,
+    NULLIF(left(trim(_item->>'notes'), 200), '')
+  )
+  RETURNING id INTO _item_id;
+
+  FOR _slot IN
+    SELECT cs.name, cso.menu_id, cso.price_delta
+    FROM public.combo_slots cs
+    LEFT JOIN jsonb_array_elements(_choices) AS choice
+      ON (choice->>'slot_id')::uuid = cs.id
+    LEFT JOIN public.combo_slot_options cso
+      ON cso.slot_id = cs.id AND cso.menu_id = (choice->>'menu_id')::uuid
+    WHERE cs.combo_id = (_item->>'combo_id')::uuid
+    ORDER BY cs.sort_order
+  LOOP
+    IF _slot.menu_id IS NULL THEN
+      RAISE EXCEPTION 'Choose one of the listed options for %', _slot.name;
+    END IF;
+
+    -- check_ordered_item_available makes sure the branch is selling the choice
+    INSERT INTO public.ordered_items (order_id, menu_id, parent_item_id, combo_slot, quantity, price_each)
+    VALUES (_order_id, _slot.menu_id, _item_id, _slot.name, (_item->>'quantity')::int, 0);
+
+    UPDATE public.ordered_items
+    SET price_each = price_each + _slot.price_delta
+    WHERE id = _item_id;
+  END LOOP;
+
+  RETURN _item_id;
+END;
+$$;
+
+-- Adds one line to an order. _item is { menu_id, quantity, notes, modifier_option_ids },
+-- or a combo as described on add_combo_line();
+-- price_each is filled in by set_ordered_item_price and the modifier triggers.
+-- Only called from the order functions below.
+CREATE OR REPLACE FUNCTION public.add_order_line(_order_id uuid, _item jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item_id uuid;
+  _group record;
+BEGIN
+  IF _item->>'combo_id' IS NOT NULL THEN
+    RETURN public.add_combo_line(_order_id, _item);
+  END IF;
+
+  INSERT INTO public.ordered_items (order_id, menu_id, quantity, price_each, notes)
+  VALUES (
+    _order_id,
+    (_item->>'menu_id')::uuid,
+    (_item->>'quantity')::int,
+    0,
+    NULLIF(left(trim(_item->>'notes'), 200), '')
+  )
+  RETURNING id INTO _item_id;
+
+  INSERT INTO public.ordered_item_modifiers (ordered_item_id, modifier_option_id, name, price_delta)
+  SELECT _item_id, option_id::uuid, '', 0
+  FROM jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb)) AS option_id;
+
+  -- Every modifier group's selection limits must be respected
+  FOR _group IN
+    SELECT mg.name, mg.min_selections, mg.max_selections, count(oim.id) AS selected
+    FROM public.modifier_groups mg
+    LEFT JOIN public.modifier_options mo ON mo.group_id = mg.id
+    LEFT JOIN public.ordered_item_modifiers oim
+      ON oim.modifier_option_id = mo.id AND oim.ordered_item_id = _item_id
+    WHERE mg.menu_id = (_item->>'menu_id')::uuid
+    GROUP BY mg.id, mg.name, mg.min_selections, mg.max_selections
+  LOOP
+    IF _group.selected < _group.min_selections OR _group.selected > _group.max_selections THEN
+      RAISE EXCEPTION 'Choose between % and % options for %',
+        _group.min_selections, _group.max_selections, _group.name;
+    END IF;
+  END LOOP;
+
+  RETURN _item_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_combo_line(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Recomputes discounts, tax, delivery fee and total from the order's lines. Points and
+-- gift card credit no longer needed after an edit are handed back.
+CREATE OR REPLACE FUNCTION public.refresh_order_totals(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _points_per_dollar constant int := 100;
+  _order record;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _delivery_fee decimal;
+  _item_discount decimal := 0;
+  _delivery_discount decimal := 0;
+  _points int;
+  _tax decimal;
+  _total decimal;
+  _gift_card_amount decimal;
+BEGIN
+  SELECT user_id, order_type, tip, promo_code_id, points_redeemed, gift_card_id, gift_card_amount INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _delivery_fee := CASE WHEN _order.order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes
+  WHERE id = _order.promo_code_id;
+
+  -- An edit can take the order below the code's minimum, which drops the discount
+  IF FOUND AND _subtotal >= _promo.min_subtotal THEN
+    CASE _promo.promo_type
+      WHEN 'percentage' THEN
+        _item_discount := round(_subtotal * _promo.value / 100, 2);
+      WHEN 'fixed_amount' THEN
+        _item_discount := least(_promo.value, _subtotal);
+      WHEN 'free_delivery' THEN
+        _delivery_discount := _delivery_fee;
+      WHEN 'buy_x_get_y' THEN
+        -- Each full set of buy + get units earns get units free, priced at the cheapest line.
+        -- Items that came as part of a combo were already discounted.
+        SELECT COALESCE(sum(quantity) / (_promo.buy_quantity + _promo.get_quantity) * _promo.get_quantity * min(price_each), 0)
+        INTO _item_discount
+        FROM public.ordered_items
+        WHERE order_id = _order_id AND menu_id = _promo.buy_menu_id AND parent_item_id IS NULL;
+    END CASE;
+  END IF;
+
+  _points := least(_order.points_redeemed, floor((_subtotal - _item_discount) * _points_per_dollar)::int);
+
+  IF _points < _order.points_redeemed THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (_order.user_id, _order_id, _order.points_redeemed - _points, 'refunded');
+  END IF;
+
+  -- Tax is charged on the food after discounts
+  _tax := round((_subtotal - _item_discount - _points::decimal / _points_per_dollar) * _tax_rate, 2);
+
+  _total := _subtotal - _item_discount - _points::decimal / _points_per_dollar
+    + _tax + _delivery_fee - _delivery_discount + COALESCE(_order.tip, 0);
+
+  -- A gift card pays up to the total; it never takes more after an edit
+  _gift_card_amount := least(_order.gift_card_amount, _total);
+
+  IF _gift_card_amount < _order.gift_card_amount THEN
+    INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason)
+    VALUES (_order.gift_card_id, _order_id, _order.gift_card_amount - _gift_card_amount, 'refunded');
+  END IF;
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      discount = _item_discount + _delivery_discount,
+      points_redeemed = _points,
+      points_discount = _points::decimal / _points_per_dollar,
+      gift_card_amount = _gift_card_amount,
+      total = _total
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Replaces the lines of the current user's pending order. _items uses the same shape
+-- as place_order(); lines that keep their "id" keep their price and only change
+-- quantity, lines without one are added at today's price, and missing lines are removed.
+-- Combo component lines aren't sent; they follow their combo line.
+CREATE OR REPLACE FUNCTION public.update_order_items(_order_id uuid, _items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status order_status;
+  _item jsonb;
+BEGIN
+  SELECT status INTO _status
+  FROM public.orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _status <> 'pending' THEN
+    RAISE EXCEPTION 'This order is already being prepared and can no longer be changed';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item; cancel it instead';
+  END IF;
+
+  DELETE FROM public.ordered_items
+  WHERE order_id = _order_id
+    AND parent_item_id IS NULL
+    AND id NOT IN (
+      SELECT (e->>'id')::uuid
+      FROM jsonb_array_elements(_items) AS e
+      WHERE e->>'id' IS NOT NULL
+    );
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    IF _item->>'id' IS NULL THEN
+      PERFORM public.add_order_line(_order_id, _item);
+    ELSE
+      UPDATE public.ordered_items
+      SET quantity = (_item->>'quantity')::int,
+          notes = NULLIF(left(trim(_item->>'notes'), 200), '')
+      WHERE id = (_item->>'id')::uuid AND order_id = _order_id AND parent_item_id IS NULL;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item % is not on this order', _item->>'id';
+      END IF;
+
+      UPDATE public.ordered_items
+      SET quantity = (_item->>'quantity')::int
+      WHERE parent_item_id = (_item->>'id')::uuid;
+    END IF;
+  END LOOP;
+
+  UPDATE public.orders SET edited_at = now() WHERE id = _order_id;
+
+  PERFORM public.refresh_order_totals(_order_id);
+END;
+$$;
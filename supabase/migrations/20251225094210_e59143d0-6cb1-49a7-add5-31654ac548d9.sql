@@ -0,0 +1,24 @@
+-- Diets an item is suitable for
+CREATE TYPE public.dietary_tag AS ENUM ('vegetarian', 'vegan', 'gluten_free', 'halal');
+
+-- The major food allergens an item can contain
+CREATE TYPE public.allergen AS ENUM (
+  'milk',
+  'eggs',
+  'fish',
+  'shellfish',
+  'tree_nuts',
+  'peanuts',
+  'wheat',
+  'soy',
+  'sesame'
+);
+
+-- What each menu item is suitable for and what it contains, as declared by the kitchen
+ALTER TABLE public.menu
+  ADD COLUMN dietary_tags public.dietary_tag[] NOT NULL DEFAULT '{}',
+  ADD COLUMN allergens public.allergen[] NOT NULL DEFAULT '{}';
+
+-- Allergens the customer wants to be warned about at checkout
+ALTER TABLE public.profiles
+  ADD COLUMN allergens public.allergen[] NOT NULL DEFAULT '{}';
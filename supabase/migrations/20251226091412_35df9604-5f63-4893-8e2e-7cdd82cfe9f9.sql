@@ -0,0 +1,42 @@
+-- A deactivated staff member keeps their staff row, so the branch lookup has to
+-- ignore it or they'd keep access to their old branch's orders and customers
+CREATE OR REPLACE FUNCTION public.get_user_branch_id(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT branch_id
+  FROM public.staff
+  WHERE user_id = _user_id
+  AND deactivated_at IS NULL
+  LIMIT 1;
+$$;
+
+-- The original order policies read the staff table directly; route them through
+-- get_user_branch_id() so they skip deactivated staff too
+DROP POLICY "Staff can view orders for their branch" ON public.orders;
+DROP POLICY "Staff can update orders for their branch" ON public.orders;
+DROP POLICY "Staff can view items for their branch orders" ON public.ordered_items;
+
+CREATE POLICY "Staff can view orders for their branch"
+ON public.orders
+FOR SELECT
+USING (branch_id = public.get_user_branch_id(auth.uid()));
+
+CREATE POLICY "Staff can update orders for their branch"
+ON public.orders
+FOR UPDATE
+USING (branch_id = public.get_user_branch_id(auth.uid()));
+
+CREATE POLICY "Staff can view items for their branch orders"
+ON public.ordered_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = ordered_items.order_id
+    AND o.branch_id = public.get_user_branch_id(auth.uid())
+  )
+);
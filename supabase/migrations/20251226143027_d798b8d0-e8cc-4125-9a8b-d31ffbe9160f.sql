@@ -0,0 +1,217 @@
+-- Whether a string names a time zone Postgres knows, e.g. 'America/New_York'
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(_time_zone text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM timestamptz 'epoch' AT TIME ZONE _time_zone;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+-- Branch hours are wall-clock times; this is the zone they are read in, both by
+-- place_order() and by the checkout slot picker
+ALTER TABLE public.branches
+  ADD COLUMN timezone text NOT NULL DEFAULT 'UTC'
+  CHECK (public.is_valid_time_zone(timezone));
+
+-- Whether a branch's opening hours cover the given moment, in the branch's own zone
+CREATE OR REPLACE FUNCTION public.is_branch_open_at(_branch_id uuid, _at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.branches b
+    JOIN public.branch_hours h ON h.branch_id = b.id
+    WHERE b.id = _branch_id
+    AND h.weekday = extract(dow FROM _at AT TIME ZONE b.timezone)
+    AND (_at AT TIME ZONE b.timezone)::time >= h.opens_at
+    AND (_at AT TIME ZONE b.timezone)::time < h.closes_at
+  );
+$$;
+
+-- Places an order for the current user. _items is a JSON array of
+-- { menu_id, quantity, notes, modifier_option_ids } objects for menu items and
+-- { combo_id, quantity, notes, choices: [{ slot_id, menu_id }] } objects for combos.
+-- Retrying with the same _idempotency_key returns the order the first call created.
+-- _scheduled_for is NULL for orders wanted as soon as possible.
+-- _promo_code is checked against all of its restrictions and must give a discount.
+-- _points are taken from the customer's loyalty balance, 100 to the dollar.
+-- _gift_card_code pays as much of the total as the card's balance covers.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _branch_id uuid,
+  _order_type order_type,
+  _items jsonb,
+  _delivery_address text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _tip decimal DEFAULT 0,
+  _idempotency_key uuid DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _promo_code text DEFAULT NULL,
+  _points int DEFAULT 0,
+  _gift_card_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _item jsonb;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _balance int;
+  _gift_card_id uuid;
+  _gift_card_amount decimal;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = _branch_id) THEN
+    RAISE EXCEPTION 'Branch not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF _order_type = 'delivery' AND COALESCE(trim(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required for delivery orders';
+  END IF;
+
+  IF COALESCE(_tip, 0) < 0 OR COALESCE(_tip, 0) > 1000 THEN
+    RAISE EXCEPTION 'Tip must be between 0 and 1000';
+  END IF;
+
+  IF _scheduled_for IS NOT NULL
+    AND (_scheduled_for < now() OR _scheduled_for > now() + interval '7 days') THEN
+    RAISE EXCEPTION 'Scheduled time must be within the next 7 days';
+  END IF;
+
+  IF _scheduled_for IS NOT NULL AND NOT public.is_branch_open_at(_branch_id, _scheduled_for) THEN
+    RAISE EXCEPTION 'The branch is closed at the scheduled time';
+  END IF;
+
+  IF COALESCE(_points, 0) < 0 THEN
+    RAISE EXCEPTION 'Points to redeem cannot be negative';
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN _order_id;
+    END IF;
+  END IF;
+
+  IF COALESCE(trim(_promo_code), '') <> '' THEN
+    -- Held until commit so concurrent orders can't both take a code's last use
+    PERFORM 1 FROM public.promo_codes WHERE code = upper(trim(_promo_code)) FOR UPDATE;
+    _promo := public.check_promo_code(_promo_code, _branch_id, _order_type);
+  END IF;
+
+  IF COALESCE(_points, 0) > 0 THEN
+    -- Held until commit so two orders can't spend the same points
+    PERFORM 1 FROM public.profiles WHERE id = auth.uid() FOR UPDATE;
+    _balance := public.loyalty_balance(auth.uid());
+
+    IF _points > _balance THEN
+      RAISE EXCEPTION 'You only have % points', _balance;
+    END IF;
+  END IF;
+
+  IF COALESCE(trim(_gift_card_code), '') <> '' THEN
+    -- Held until commit so two orders can't spend the same balance
+    SELECT id INTO _gift_card_id
+    FROM public.gift_cards
+    WHERE code = upper(trim(_gift_card_code)) AND voided_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND OR public.gift_card_balance(_gift_card_id) <= 0 THEN
+      RAISE EXCEPTION 'Gift card % has no balance', upper(trim(_gift_card_code));
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (user_id, branch_id, order_type, status, tip, total, delivery_address, notes, idempotency_key, scheduled_for, promo_code_id, points_redeemed)
+  VALUES (
+    auth.uid(),
+    _branch_id,
+    _order_type,
+    'pending',
+    round(COALESCE(_tip, 0), 2),
+    0,
+    CASE WHEN _order_type = 'delivery' THEN trim(_delivery_address) END,
+    NULLIF(left(trim(_notes), 1000), ''),
+    _idempotency_key,
+    _scheduled_for,
+    _promo.id,
+    COALESCE(_points, 0)
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING id INTO _order_id;
+
+  -- A concurrent call with the same key got there first
+  IF _order_id IS NULL THEN
+    SELECT id INTO _order_id
+    FROM public.orders
+    WHERE user_id = auth.uid() AND idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    PERFORM public.add_order_line(_order_id, _item);
+  END LOOP;
+
+  IF COALESCE(_points, 0) > 0 THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (auth.uid(), _order_id, -_points, 'redeemed');
+  END IF;
+
+  PERFORM public.refresh_order_totals(_order_id);
+
+  IF (SELECT points_redeemed FROM public.orders WHERE id = _order_id) < COALESCE(_points, 0) THEN
+    RAISE EXCEPTION 'You can use at most % points on this order',
+      (SELECT points_redeemed FROM public.orders WHERE id = _order_id);
+  END IF;
+
+  IF _promo.id IS NOT NULL AND (SELECT discount FROM public.orders WHERE id = _order_id) = 0 THEN
+    SELECT sum(price_each * quantity) INTO _subtotal
+    FROM public.ordered_items
+    WHERE order_id = _order_id;
+
+    IF _subtotal < _promo.min_subtotal THEN
+      RAISE EXCEPTION 'Spend at least $% to use promo code %', _promo.min_subtotal, _promo.code;
+    END IF;
+
+    RAISE EXCEPTION 'Promo code % doesn''t apply to the items in this order', _promo.code;
+  END IF;
+
+  IF _gift_card_id IS NOT NULL THEN
+    SELECT least(public.gift_card_balance(_gift_card_id), total) INTO _gift_card_amount
+    FROM public.orders
+    WHERE id = _order_id;
+
+    UPDATE public.orders
+    SET gift_card_id = _gift_card_id, gift_card_amount = _gift_card_amount
+    WHERE id = _order_id;
+
+    INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason, created_by)
+    VALUES (_gift_card_id, _order_id, -_gift_card_amount, 'redeemed', auth.uid());
+  END IF;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Hands gift card credit back from an order. A card voided since the order was placed
+-- can't be spent, so the refund is written off again straight away and the card stays
+-- at zero; the 'voided' total then covers everything the void took off the books.
+CREATE OR REPLACE FUNCTION public.refund_to_gift_card(_gift_card_id uuid, _order_id uuid, _amount decimal)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason, created_by)
+  VALUES (_gift_card_id, _order_id, _amount, 'refunded', auth.uid());
+
+  IF EXISTS (SELECT 1 FROM public.gift_cards WHERE id = _gift_card_id AND voided_at IS NOT NULL) THEN
+    INSERT INTO public.gift_card_transactions (gift_card_id, order_id, amount, reason, created_by)
+    VALUES (_gift_card_id, _order_id, -_amount, 'voided', auth.uid());
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_to_gift_card(uuid, uuid, decimal) FROM PUBLIC, anon, authenticated;
+
+-- Cancelled orders put what they took back on the card
+CREATE OR REPLACE FUNCTION public.refund_gift_card()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.gift_card_amount > 0 THEN
+    PERFORM public.refund_to_gift_card(NEW.gift_card_id, NEW.id, NEW.gift_card_amount);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recomputes discounts, tax, delivery fee and total from the order's lines. Points and
+-- gift card credit no longer needed after an edit are handed back.
+CREATE OR REPLACE FUNCTION public.refresh_order_totals(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _tax_rate constant decimal := 0.10;
+  _delivery_fee_rate constant decimal := 5.99;
+  _points_per_dollar constant int := 100;
+  _order record;
+  _promo public.promo_codes;
+  _subtotal decimal;
+  _delivery_fee decimal;
+  _item_discount decimal := 0;
+  _delivery_discount decimal := 0;
+  _points int;
+  _tax decimal;
+  _total decimal;
+  _gift_card_amount decimal;
+BEGIN
+  SELECT user_id, order_type, tip, promo_code_id, points_redeemed, gift_card_id, gift_card_amount INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  SELECT COALESCE(sum(price_each * quantity), 0)
+  INTO _subtotal
+  FROM public.ordered_items
+  WHERE order_id = _order_id;
+
+  _delivery_fee := CASE WHEN _order.order_type = 'delivery' THEN _delivery_fee_rate ELSE 0 END;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes
+  WHERE id = _order.promo_code_id;
+
+  -- An edit can take the order below the code's minimum, which drops the discount
+  IF FOUND AND _subtotal >= _promo.min_subtotal THEN
+    CASE _promo.promo_type
+      WHEN 'percentage' THEN
+        _item_discount := round(_subtotal * _promo.value / 100, 2);
+      WHEN 'fixed_amount' THEN
+        _item_discount := least(_promo.value, _subtotal);
+      WHEN 'free_delivery' THEN
+        _delivery_discount := _delivery_fee;
+      WHEN 'buy_x_get_y' THEN
+        -- Each full set of buy + get units earns get units free, priced at the cheapest line.
+        -- Items that came as part of a combo were already discounted.
+        SELECT COALESCE(sum(quantity) / (_promo.buy_quantity + _promo.get_quantity) * _promo.get_quantity * min(price_each), 0)
+        INTO _item_discount
+        FROM public.ordered_items
+        WHERE order_id = _order_id AND menu_id = _promo.buy_menu_id AND parent_item_id IS NULL;
+    END CASE;
+  END IF;
+
+  _points := least(_order.points_redeemed, floor((_subtotal - _item_discount) * _points_per_dollar)::int);
+
+  IF _points < _order.points_redeemed THEN
+    INSERT INTO public.loyalty_transactions (user_id, order_id, points, reason)
+    VALUES (_order.user_id, _order_id, _order.points_redeemed - _points, 'refunded');
+  END IF;
+
+  -- Tax is charged on the food after discounts
+  _tax := round((_subtotal - _item_discount - _points::decimal / _points_per_dollar) * _tax_rate, 2);
+
+  _total := _subtotal - _item_discount - _points::decimal / _points_per_dollar
+    + _tax + _delivery_fee - _delivery_discount + COALESCE(_order.tip, 0);
+
+  -- A gift card pays up to the total; it never takes more after an edit
+  _gift_card_amount := least(_order.gift_card_amount, _total);
+
+  IF _gift_card_amount < _order.gift_card_amount THEN
+    PERFORM public.refund_to_gift_card(_order.gift_card_id, _order_id, _order.gift_card_amount - _gift_card_amount);
+  END IF;
+
+  UPDATE public.orders
+  SET tax = _tax,
+      delivery_fee = _delivery_fee,
+      discount = _item_discount + _delivery_discount,
+      points_redeemed = _points,
+      points_discount = _points::decimal / _points_per_dollar,
+      gift_card_amount = _gift_card_amount,
+      total = _total
+  WHERE id = _order_id;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Replaces a branch's weekly opening hours in one transaction, so a rejected day
+-- leaves the old hours in place rather than none. _hours is a JSON array of
+-- { weekday, opens_at, closes_at } objects; days left out are closed.
+-- Hours can't run past midnight: closes_at must be later than opens_at on the same
+-- day, which place_order() and the checkout slot picker both rely on.
+CREATE OR REPLACE FUNCTION public.set_branch_hours(_branch_id uuid, _hours jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change branch hours';
+  END IF;
+
+  IF _hours IS NULL OR jsonb_typeof(_hours) <> 'array' THEN
+    RAISE EXCEPTION 'Hours must be a list of days';
+  END IF;
+
+  DELETE FROM public.branch_hours
+  WHERE branch_id = _branch_id;
+
+  INSERT INTO public.branch_hours (branch_id, weekday, opens_at, closes_at)
+  SELECT _branch_id, (h->>'weekday')::smallint, (h->>'opens_at')::time, (h->>'closes_at')::time
+  FROM jsonb_array_elements(_hours) AS h;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Creates a branch, or updates it when _branch_id is given, together with its weekly
+-- hours in one transaction, so a rejected day can't leave a new branch without hours.
+-- _hours uses the same shape as set_branch_hours(). Returns the branch id.
+CREATE OR REPLACE FUNCTION public.save_branch(
+  _branch_id uuid,
+  _name text,
+  _address text,
+  _phone text,
+  _email text,
+  _timezone text,
+  _hours jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can save branches';
+  END IF;
+
+  IF _branch_id IS NULL THEN
+    INSERT INTO public.branches (name, address, phone, email, timezone)
+    VALUES (trim(_name), trim(_address), trim(_phone), NULLIF(trim(_email), ''), trim(_timezone))
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.branches
+    SET name = trim(_name),
+        address = trim(_address),
+        phone = trim(_phone),
+        email = NULLIF(trim(_email), ''),
+        timezone = trim(_timezone)
+    WHERE id = _branch_id
+    RETURNING id INTO _id;
+
+    IF _id IS NULL THEN
+      RAISE EXCEPTION 'Branch not found';
+    END IF;
+  END IF;
+
+  PERFORM public.set_branch_hours(_id, _hours);
+
+  RETURN _id;
+END;
+$$;
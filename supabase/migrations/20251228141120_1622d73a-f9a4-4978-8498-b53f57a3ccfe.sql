@@ -0,0 +1,43 @@
+-- Refuse order lines for items or combos the order's branch is not selling
+CREATE OR REPLACE FUNCTION public.check_ordered_item_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _branch_id uuid;
+BEGIN
+  SELECT branch_id INTO _branch_id FROM public.orders WHERE id = NEW.order_id;
+
+  IF NEW.combo_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.combos
+      WHERE id = NEW.combo_id AND available AND archived_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Combo % is not available', NEW.combo_id;
+    END IF;
+
+    -- Each slot needs at least one choice the branch sells, matching what
+    -- fetchBranchCombos() shows; the chosen items are checked as component lines
+    IF EXISTS (
+      SELECT 1 FROM public.combo_slots s
+      WHERE s.combo_id = NEW.combo_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.combo_slot_options o
+        WHERE o.slot_id = s.id AND public.is_available_at_branch(o.menu_id, _branch_id)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Combo % is not available at this branch', NEW.combo_id;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_available_at_branch(NEW.menu_id, _branch_id) THEN
+    RAISE EXCEPTION 'Menu item % is not available at this branch', NEW.menu_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;